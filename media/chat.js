@@ -0,0 +1,602 @@
+const vscode = acquireVsCodeApi();
+let messages = [];
+
+// Indexes of the messages that no longer fit in the model's context window
+let excludedMessages = new Set();
+
+// Context picked with # mentions, sent with the next message
+let attachments = [];
+
+const MENTIONS = [
+    { kind: 'file', label: '#file', detail: 'Attach a workspace file' },
+    { kind: 'selection', label: '#selection', detail: 'Attach the selection in the editor' },
+    { kind: 'problems', label: '#problems', detail: 'Attach the problems in the active file' },
+    { kind: 'git', label: '#git', detail: 'Attach the staged git diff' },
+    { kind: 'terminal', label: '#terminal', detail: 'Attach the selection in the terminal' }
+];
+
+// The # token being typed and the suggestions shown for it
+let mention = null;
+let suggestions = [];
+let activeSuggestion = 0;
+let fileSearchTimer;
+
+window.addEventListener('message', event => {
+    const message = event.data;
+    switch (message.type) {
+        case 'updateMessages':
+            messages = message.messages;
+            updateMessagesView();
+            updateSummaryView(message.summary);
+            break;
+        case 'updatePersonas':
+            updatePersonasView(message.personas, message.activePersona);
+            break;
+        case 'updateUsage':
+            updateUsageView(message.usage);
+            break;
+        case 'updateSessions':
+            // A summary being edited belongs to the session that was active
+            setSummaryEditing(false);
+            updateSessionsView(message.sessions, message.activeSessionId);
+            break;
+        case 'showTyping':
+            showTypingIndicator();
+            break;
+        case 'hideTyping':
+            hideTypingIndicator();
+            break;
+        case 'fileSuggestions':
+            // Ignore results for a query that has been typed over since
+            if (mention && mention.fileQuery === message.query) {
+                showSuggestions(message.files.map(path => ({ kind: 'file', path, label: path })));
+            }
+            break;
+    }
+});
+
+function updateMessagesView() {
+    const messagesContainer = document.getElementById('messages');
+
+    if (messages.length === 0) {
+        messagesContainer.innerHTML = `
+            <div class="empty-state">
+                <h4>Welcome to Ollama Chat</h4>
+                <p>Start a conversation with your AI assistant</p>
+            </div>
+        `;
+        return;
+    }
+
+    messagesContainer.innerHTML = '';
+
+    messages.forEach((msg, index) => {
+        const messageDiv = document.createElement('div');
+        messageDiv.className = `message ${msg.role === 'user' ? 'user-message' : 'assistant-message markdown'}`;
+        messageDiv.classList.toggle('pinned', !!msg.pinned);
+        messageDiv.classList.toggle('not-sent', excludedMessages.has(index));
+        messageDiv.appendChild(createPinButton(msg, index));
+        if (msg.role === 'user') {
+            messageDiv.appendChild(document.createTextNode(msg.content));
+            if (msg.attachments && msg.attachments.length > 0) {
+                messageDiv.appendChild(renderAttachmentLabels(msg.attachments));
+            }
+        } else {
+            messageDiv.appendChild(renderMarkdown(msg.content));
+            addCodeBlockActions(messageDiv);
+            if (msg.references && msg.references.length > 0) {
+                messageDiv.appendChild(renderReferences(msg.references));
+            }
+        }
+        if (msg.interrupted) {
+            const note = document.createElement('span');
+            note.className = 'interrupted-note';
+            note.textContent = 'Response interrupted';
+            messageDiv.appendChild(note);
+        }
+        messagesContainer.appendChild(messageDiv);
+    });
+
+    // Scroll to bottom
+    messagesContainer.scrollTop = messagesContainer.scrollHeight;
+}
+
+const CODE_ACTIONS = [
+    { action: 'insert', label: 'Insert', title: 'Insert at cursor' },
+    { action: 'replace', label: 'Replace', title: 'Replace the original selection' },
+    { action: 'copy', label: 'Copy', title: 'Copy to clipboard' },
+    { action: 'newFile', label: 'New File', title: 'Open in a new file' }
+];
+
+function addCodeBlockActions(messageDiv) {
+    messageDiv.querySelectorAll('pre.code-block').forEach(pre => {
+        const toolbar = document.createElement('div');
+        toolbar.className = 'code-actions';
+
+        CODE_ACTIONS.forEach(({ action, label, title }) => {
+            const button = document.createElement('button');
+            button.className = 'code-action-button';
+            button.textContent = label;
+            button.title = title;
+            button.dataset.codeAction = action;
+            toolbar.appendChild(button);
+        });
+
+        const wrapper = document.createElement('div');
+        wrapper.className = 'code-block-container';
+        pre.replaceWith(wrapper);
+        wrapper.appendChild(toolbar);
+        wrapper.appendChild(pre);
+    });
+}
+
+function createPinButton(msg, index) {
+    const button = document.createElement('button');
+    button.className = 'pin-button';
+    button.textContent = msg.pinned ? 'Unpin' : 'Pin';
+    button.title = msg.pinned
+        ? 'Stop always sending this message'
+        : 'Always send this message, even when older messages no longer fit';
+    button.dataset.pinIndex = String(index);
+    return button;
+}
+
+function updateUsageView(usage) {
+    excludedMessages = new Set(usage.excluded);
+
+    const percent = Math.min(100, Math.round(usage.used / usage.limit * 100));
+    const fill = document.getElementById('contextUsageFill');
+    fill.style.width = `${percent}%`;
+    fill.classList.toggle('full', percent >= 90);
+
+    const dropped = usage.excluded.length > 0
+        ? ` · ${usage.excluded.length} earlier message${usage.excluded.length === 1 ? '' : 's'} not sent`
+        : '';
+    document.getElementById('contextUsageText').textContent =
+        `${formatTokens(usage.used)} / ${formatTokens(usage.limit)} tokens${dropped}`;
+    document.getElementById('contextUsage').title =
+        `Estimated share of the model's context window used by this conversation (${percent}%)`;
+
+    document.querySelectorAll('#messages .message').forEach((messageDiv, index) => {
+        messageDiv.classList.toggle('not-sent', excludedMessages.has(index));
+    });
+}
+
+function formatTokens(count) {
+    return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+}
+
+let isEditingSummary = false;
+
+// Shows the running summary that replaces messages no longer sent
+function updateSummaryView(summary) {
+    const container = document.getElementById('summary');
+    container.classList.toggle('visible', !!summary);
+    if (!summary || isEditingSummary) {
+        return;
+    }
+    document.getElementById('summaryText').textContent = summary.content;
+}
+
+function setSummaryEditing(editing) {
+    isEditingSummary = editing;
+    document.getElementById('summary').classList.toggle('editing', editing);
+
+    const input = document.getElementById('summaryInput');
+    if (editing) {
+        input.value = document.getElementById('summaryText').textContent;
+        input.focus();
+    }
+}
+
+function editSummary() {
+    setSummaryEditing(true);
+}
+
+function saveSummary() {
+    const content = document.getElementById('summaryInput').value;
+    document.getElementById('summaryText').textContent = content;
+    setSummaryEditing(false);
+    vscode.postMessage({
+        type: 'editSummary',
+        content
+    });
+}
+
+function cancelSummaryEdit() {
+    setSummaryEditing(false);
+}
+
+function renderAttachmentLabels(messageAttachments) {
+    const list = document.createElement('div');
+    list.className = 'message-attachments';
+
+    messageAttachments.forEach(attachment => {
+        const chip = document.createElement('span');
+        chip.className = 'attachment-chip';
+        chip.textContent = attachment.label;
+        list.appendChild(chip);
+    });
+    return list;
+}
+
+// Workspace locations an @workspace answer was based on, numbered as cited
+function renderReferences(references) {
+    const list = document.createElement('div');
+    list.className = 'references';
+
+    references.forEach((reference, index) => {
+        const button = document.createElement('button');
+        button.className = 'reference-link';
+        button.textContent = `[${index + 1}] ${reference.label}`;
+        button.title = `Open ${reference.label}`;
+        button.dataset.reference = JSON.stringify(reference);
+        list.appendChild(button);
+    });
+    return list;
+}
+
+function runCodeAction(button) {
+    const pre = button.closest('.code-block-container').querySelector('pre.code-block');
+    vscode.postMessage({
+        type: 'codeAction',
+        action: button.dataset.codeAction,
+        code: pre.textContent,
+        language: pre.dataset.language || ''
+    });
+}
+
+function updateSessionsView(sessions, activeSessionId) {
+    const select = document.getElementById('sessionSelect');
+    select.innerHTML = '';
+
+    sessions.forEach(session => {
+        const option = document.createElement('option');
+        option.value = session.id;
+        option.textContent = session.name;
+        option.selected = session.id === activeSessionId;
+        select.appendChild(option);
+    });
+}
+
+function updatePersonasView(personas, activePersona) {
+    const select = document.getElementById('personaSelect');
+    select.innerHTML = '';
+
+    const none = document.createElement('option');
+    none.value = '';
+    none.textContent = 'No persona';
+    select.appendChild(none);
+
+    personas.forEach(persona => {
+        const option = document.createElement('option');
+        option.value = persona.name;
+        option.textContent = persona.name;
+        option.title = persona.description || '';
+        option.selected = persona.name === activePersona;
+        select.appendChild(option);
+    });
+    select.style.display = personas.length > 0 ? '' : 'none';
+}
+
+function showTypingIndicator() {
+    const messagesContainer = document.getElementById('messages');
+    const existingIndicator = document.querySelector('.typing-indicator');
+
+    if (!existingIndicator) {
+        const typingDiv = document.createElement('div');
+        typingDiv.className = 'typing-indicator';
+        typingDiv.textContent = 'Ollama is typing...';
+        messagesContainer.appendChild(typingDiv);
+        messagesContainer.scrollTop = messagesContainer.scrollHeight;
+    }
+    document.getElementById('stopButton').classList.add('visible');
+}
+
+function hideTypingIndicator() {
+    const indicator = document.querySelector('.typing-indicator');
+    if (indicator) {
+        indicator.remove();
+    }
+    document.getElementById('stopButton').classList.remove('visible');
+}
+
+function sendMessage() {
+    const input = document.getElementById('messageInput');
+    const message = input.value.trim();
+
+    if (message || attachments.length > 0) {
+        vscode.postMessage({
+            type: 'sendMessage',
+            message: message,
+            attachments: attachments.map(({ kind, path }) => ({ kind, path }))
+        });
+        input.value = '';
+        attachments = [];
+        renderAttachmentChips();
+        hideSuggestions();
+        adjustTextareaHeight();
+    }
+}
+
+function renderAttachmentChips() {
+    const container = document.getElementById('attachmentChips');
+    container.innerHTML = '';
+
+    attachments.forEach((attachment, index) => {
+        const chip = document.createElement('span');
+        chip.className = 'attachment-chip';
+        chip.textContent = attachment.label;
+
+        const remove = document.createElement('button');
+        remove.className = 'attachment-remove';
+        remove.textContent = '×';
+        remove.title = `Remove ${attachment.label}`;
+        remove.dataset.removeAttachment = String(index);
+        chip.appendChild(remove);
+
+        container.appendChild(chip);
+    });
+}
+
+function addAttachment(kind, path) {
+    if (!attachments.some(attachment => attachment.kind === kind && attachment.path === path)) {
+        attachments.push({ kind, path, label: path ? `#file:${path}` : `#${kind}` });
+        renderAttachmentChips();
+    }
+}
+
+/**
+ * Finds the # token that ends at the caret and updates the suggestions for
+ * it: the mention kinds, or matching files once `#file:` is typed.
+ */
+function updateMention() {
+    const input = document.getElementById('messageInput');
+    const before = input.value.substring(0, input.selectionStart);
+    const match = before.match(/(^|\s)#([\w:./-]*)$/);
+
+    if (!match) {
+        hideSuggestions();
+        return;
+    }
+
+    const token = match[2];
+    mention = { start: input.selectionStart - token.length - 1, end: input.selectionStart };
+
+    if (token.startsWith('file:')) {
+        mention.fileQuery = token.substring('file:'.length);
+        clearTimeout(fileSearchTimer);
+        fileSearchTimer = setTimeout(() => {
+            vscode.postMessage({ type: 'searchFiles', query: mention ? mention.fileQuery : '' });
+        }, 150);
+        return;
+    }
+
+    showSuggestions(MENTIONS.filter(item => item.label.startsWith(`#${token}`)));
+}
+
+function showSuggestions(items) {
+    suggestions = items;
+    activeSuggestion = 0;
+
+    const list = document.getElementById('mentionSuggestions');
+    list.innerHTML = '';
+    if (items.length === 0) {
+        list.classList.remove('visible');
+        return;
+    }
+
+    items.forEach((item, index) => {
+        const option = document.createElement('div');
+        option.className = `mention-suggestion${index === activeSuggestion ? ' active' : ''}`;
+        option.setAttribute('role', 'option');
+        option.dataset.suggestion = String(index);
+
+        const label = document.createElement('span');
+        label.textContent = item.label;
+        option.appendChild(label);
+        if (item.detail) {
+            const detail = document.createElement('span');
+            detail.className = 'mention-detail';
+            detail.textContent = item.detail;
+            option.appendChild(detail);
+        }
+        list.appendChild(option);
+    });
+    list.classList.add('visible');
+}
+
+function hideSuggestions() {
+    mention = null;
+    suggestions = [];
+    clearTimeout(fileSearchTimer);
+    document.getElementById('mentionSuggestions').classList.remove('visible');
+}
+
+function moveSuggestion(offset) {
+    activeSuggestion = (activeSuggestion + offset + suggestions.length) % suggestions.length;
+    document.querySelectorAll('.mention-suggestion').forEach((option, index) => {
+        option.classList.toggle('active', index === activeSuggestion);
+        if (index === activeSuggestion) {
+            option.scrollIntoView({ block: 'nearest' });
+        }
+    });
+}
+
+function pickSuggestion(index) {
+    const item = suggestions[index];
+    const input = document.getElementById('messageInput');
+    if (!item || !mention) {
+        return;
+    }
+
+    const before = input.value.substring(0, mention.start);
+    const after = input.value.substring(mention.end);
+
+    if (item.kind === 'file' && !item.path) {
+        // Keep typing the path after #file:
+        input.value = `${before}#file:${after}`;
+        input.selectionStart = input.selectionEnd = before.length + '#file:'.length;
+        updateMention();
+    } else {
+        input.value = before + after;
+        input.selectionStart = input.selectionEnd = before.length;
+        addAttachment(item.kind, item.path);
+        hideSuggestions();
+    }
+    input.focus();
+    adjustTextareaHeight();
+}
+
+function stopGeneration() {
+    vscode.postMessage({
+        type: 'stopGeneration'
+    });
+}
+
+function clearChat() {
+    vscode.postMessage({
+        type: 'clearChat'
+    });
+}
+
+function newChat() {
+    vscode.postMessage({
+        type: 'newChat'
+    });
+}
+
+function renameSession() {
+    vscode.postMessage({
+        type: 'renameSession'
+    });
+}
+
+function deleteSession() {
+    vscode.postMessage({
+        type: 'deleteSession'
+    });
+}
+
+function selectModel() {
+    vscode.postMessage({
+        type: 'selectModel'
+    });
+}
+
+function adjustTextareaHeight() {
+    const textarea = document.getElementById('messageInput');
+    textarea.style.height = 'auto';
+    textarea.style.height = Math.min(textarea.scrollHeight, 120) + 'px';
+}
+
+const actions = {
+    selectModel,
+    clearChat,
+    newChat,
+    renameSession,
+    deleteSession,
+    sendMessage,
+    stopGeneration,
+    editSummary,
+    saveSummary,
+    cancelSummaryEdit
+};
+
+// Event listeners
+document.addEventListener('click', function(e) {
+    const codeActionButton = e.target.closest('[data-code-action]');
+    if (codeActionButton) {
+        runCodeAction(codeActionButton);
+        return;
+    }
+
+    const pinButton = e.target.closest('[data-pin-index]');
+    if (pinButton) {
+        vscode.postMessage({
+            type: 'togglePin',
+            index: Number(pinButton.dataset.pinIndex)
+        });
+        return;
+    }
+
+    const removeButton = e.target.closest('[data-remove-attachment]');
+    if (removeButton) {
+        attachments.splice(Number(removeButton.dataset.removeAttachment), 1);
+        renderAttachmentChips();
+        return;
+    }
+
+    const suggestion = e.target.closest('[data-suggestion]');
+    if (suggestion) {
+        pickSuggestion(Number(suggestion.dataset.suggestion));
+        return;
+    }
+
+    const referenceLink = e.target.closest('[data-reference]');
+    if (referenceLink) {
+        vscode.postMessage({
+            type: 'openReference',
+            reference: JSON.parse(referenceLink.dataset.reference)
+        });
+        return;
+    }
+
+    const target = e.target.closest('[data-action]');
+    if (target && actions[target.dataset.action]) {
+        actions[target.dataset.action]();
+    }
+});
+
+document.getElementById('messageInput').addEventListener('keydown', function(e) {
+    if (suggestions.length > 0) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            moveSuggestion(e.key === 'ArrowDown' ? 1 : -1);
+            return;
+        }
+        if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            pickSuggestion(activeSuggestion);
+            return;
+        }
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            hideSuggestions();
+            return;
+        }
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        sendMessage();
+    }
+});
+
+document.getElementById('messageInput').addEventListener('input', function() {
+    adjustTextareaHeight();
+    updateMention();
+});
+
+document.getElementById('messageInput').addEventListener('blur', function() {
+    // Clicks on a suggestion land before the list is hidden
+    setTimeout(hideSuggestions, 150);
+});
+
+document.getElementById('personaSelect').addEventListener('change', function(e) {
+    vscode.postMessage({
+        type: 'selectPersona',
+        name: e.target.value
+    });
+});
+
+document.getElementById('sessionSelect').addEventListener('change', function(e) {
+    vscode.postMessage({
+        type: 'switchSession',
+        sessionId: e.target.value
+    });
+});
+
+// Initialize
+adjustTextareaHeight();
+vscode.postMessage({ type: 'ready' });
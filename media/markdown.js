@@ -0,0 +1,396 @@
+// Markdown renderer for assistant messages in the chat webview.
+//
+// Model output is untrusted, so everything here builds DOM nodes and sets
+// text through textContent. Nothing is ever assigned to innerHTML, raw HTML
+// in the source is shown as text, and links are only created for http(s) URLs.
+
+const KEYWORDS = {
+    common: [
+        'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break',
+        'continue', 'return', 'try', 'catch', 'finally', 'throw', 'new', 'class',
+        'import', 'export', 'from', 'as', 'in', 'is', 'not', 'and', 'or', 'true',
+        'false', 'null', 'public', 'private', 'protected', 'static', 'const',
+        'void', 'this', 'super', 'extends', 'implements', 'interface', 'enum',
+        'struct', 'type', 'package', 'namespace', 'using', 'async', 'await', 'yield'
+    ],
+    javascript: ['function', 'let', 'var', 'typeof', 'instanceof', 'undefined', 'of', 'delete', 'get', 'set'],
+    typescript: ['function', 'let', 'var', 'typeof', 'instanceof', 'undefined', 'of', 'readonly', 'keyof', 'declare', 'abstract', 'any', 'unknown', 'never', 'string', 'number', 'boolean'],
+    python: ['def', 'elif', 'except', 'lambda', 'pass', 'raise', 'with', 'global', 'nonlocal', 'None', 'True', 'False', 'self', 'assert', 'del', 'print'],
+    java: ['final', 'abstract', 'synchronized', 'throws', 'int', 'long', 'double', 'float', 'boolean', 'char', 'byte', 'short', 'instanceof'],
+    csharp: ['var', 'readonly', 'override', 'virtual', 'sealed', 'internal', 'out', 'ref', 'int', 'string', 'bool', 'double', 'decimal', 'object', 'get', 'set'],
+    go: ['func', 'go', 'defer', 'chan', 'select', 'map', 'range', 'var', 'nil', 'fallthrough', 'goto'],
+    rust: ['fn', 'let', 'mut', 'impl', 'trait', 'pub', 'mod', 'use', 'crate', 'self', 'Self', 'match', 'loop', 'where', 'ref', 'move', 'dyn', 'unsafe', 'Some', 'None', 'Ok', 'Err'],
+    cpp: ['int', 'long', 'double', 'float', 'char', 'bool', 'auto', 'template', 'typename', 'virtual', 'override', 'nullptr', 'sizeof', 'unsigned', 'signed', 'std', 'include', 'define'],
+    shell: ['then', 'fi', 'elif', 'esac', 'done', 'function', 'local', 'echo', 'export', 'unset']
+};
+
+const LANGUAGE_ALIASES = {
+    js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+    ts: 'typescript', tsx: 'typescript',
+    py: 'python',
+    cs: 'csharp', 'c#': 'csharp',
+    golang: 'go',
+    rs: 'rust',
+    c: 'cpp', 'c++': 'cpp', h: 'cpp', hpp: 'cpp',
+    sh: 'shell', bash: 'shell', zsh: 'shell', shellscript: 'shell'
+};
+
+const HASH_COMMENT_LANGUAGES = ['python', 'shell', 'ruby', 'r', 'yaml', 'perl', 'makefile', 'dockerfile', 'powershell'];
+
+function normalizeLanguage(language) {
+    const lower = (language || '').toLowerCase();
+    return LANGUAGE_ALIASES[lower] || lower;
+}
+
+function appendToken(parent, text, className) {
+    if (!text) {
+        return;
+    }
+    if (!className) {
+        parent.appendChild(document.createTextNode(text));
+        return;
+    }
+    const span = document.createElement('span');
+    span.className = className;
+    span.textContent = text;
+    parent.appendChild(span);
+}
+
+/**
+ * Highlights code with a small language-agnostic tokenizer. Colors come from
+ * the token classes in chat.css, which map to the active theme's variables.
+ */
+function highlightCode(code, language) {
+    const fragment = document.createDocumentFragment();
+    const lang = normalizeLanguage(language);
+    const keywords = new Set(KEYWORDS.common.concat(KEYWORDS[lang] || []));
+    const hashComments = HASH_COMMENT_LANGUAGES.includes(lang);
+
+    const patterns = [
+        { className: 'token-comment', regex: hashComments ? /^#[^\n]*/ : /^\/\/[^\n]*/ },
+        { className: 'token-comment', regex: /^\/\*[\s\S]*?(\*\/|$)/, skip: hashComments },
+        { className: 'token-comment', regex: /^("""|''')[\s\S]*?(\1|$)/, skip: lang !== 'python' },
+        { className: 'token-string', regex: /^"(?:\\.|[^"\\\n])*"?/ },
+        { className: 'token-string', regex: /^'(?:\\.|[^'\\\n])*'?/, skip: lang === 'rust' },
+        { className: 'token-string', regex: /^`(?:\\.|[^`\\])*`?/ },
+        { className: 'token-number', regex: /^(0x[\da-fA-F]+|\d+(\.\d+)?([eE][+-]?\d+)?)/ },
+        { className: 'token-word', regex: /^[A-Za-z_$][\w$]*/ }
+    ].filter(pattern => !pattern.skip);
+
+    let rest = code;
+    let plain = '';
+
+    while (rest.length > 0) {
+        let matched = false;
+
+        for (const pattern of patterns) {
+            const match = pattern.regex.exec(rest);
+            if (!match || match[0].length === 0) {
+                continue;
+            }
+
+            const text = match[0];
+            let className = pattern.className;
+
+            if (className === 'token-word') {
+                if (keywords.has(text)) {
+                    className = 'token-keyword';
+                } else if (/^\s*\(/.test(rest.substring(text.length))) {
+                    className = 'token-function';
+                } else if (/^[A-Z]/.test(text)) {
+                    className = 'token-type';
+                } else {
+                    className = '';
+                }
+            }
+
+            appendToken(fragment, plain, '');
+            plain = '';
+            appendToken(fragment, text, className);
+            rest = rest.substring(text.length);
+            matched = true;
+            break;
+        }
+
+        if (!matched) {
+            plain += rest[0];
+            rest = rest.substring(1);
+        }
+    }
+
+    appendToken(fragment, plain, '');
+    return fragment;
+}
+
+const INLINE_PATTERNS = [
+    { type: 'code', regex: /^`([^`\n]+)`/ },
+    { type: 'link', regex: /^\[([^\]\n]+)\]\(([^)\s]+)\)/ },
+    { type: 'strong', regex: /^\*\*([\s\S]+?)\*\*/ },
+    { type: 'strong', regex: /^__([\s\S]+?)__/ },
+    { type: 'del', regex: /^~~([\s\S]+?)~~/ },
+    { type: 'em', regex: /^\*([^*\s][^*]*?)\*/ },
+    { type: 'em', regex: /^_([^_\s][^_]*?)_(?![A-Za-z0-9])/ }
+];
+
+function renderInline(text, parent) {
+    let rest = text;
+    let plain = '';
+
+    const flush = () => {
+        if (plain) {
+            parent.appendChild(document.createTextNode(plain));
+            plain = '';
+        }
+    };
+
+    while (rest.length > 0) {
+        let matched = null;
+        let matchedType = null;
+
+        // Only try inline markup where it can start, so words like snake_case stay intact
+        if ('`[*_~'.includes(rest[0]) && !(rest[0] === '_' && /[A-Za-z0-9]$/.test(plain))) {
+            for (const pattern of INLINE_PATTERNS) {
+                const match = pattern.regex.exec(rest);
+                if (match) {
+                    matched = match;
+                    matchedType = pattern.type;
+                    break;
+                }
+            }
+        }
+
+        if (!matched) {
+            plain += rest[0];
+            rest = rest.substring(1);
+            continue;
+        }
+
+        flush();
+
+        switch (matchedType) {
+            case 'code': {
+                const code = document.createElement('code');
+                code.textContent = matched[1];
+                parent.appendChild(code);
+                break;
+            }
+            case 'link': {
+                const url = matched[2];
+                if (/^https?:\/\//i.test(url)) {
+                    const link = document.createElement('a');
+                    link.href = url;
+                    link.title = url;
+                    renderInline(matched[1], link);
+                    parent.appendChild(link);
+                } else {
+                    parent.appendChild(document.createTextNode(matched[0]));
+                }
+                break;
+            }
+            default: {
+                const element = document.createElement(matchedType);
+                renderInline(matched[1], element);
+                parent.appendChild(element);
+            }
+        }
+
+        rest = rest.substring(matched[0].length);
+    }
+
+    flush();
+}
+
+function renderParagraph(lines, parent) {
+    const paragraph = document.createElement('p');
+    lines.forEach((line, index) => {
+        if (index > 0) {
+            paragraph.appendChild(document.createElement('br'));
+        }
+        renderInline(line, paragraph);
+    });
+    parent.appendChild(paragraph);
+}
+
+function createCodeBlock(code, language) {
+    const pre = document.createElement('pre');
+    pre.className = 'code-block';
+    if (language) {
+        pre.dataset.language = language;
+    }
+
+    const codeElement = document.createElement('code');
+    codeElement.appendChild(highlightCode(code, language));
+    pre.appendChild(codeElement);
+    return pre;
+}
+
+function splitTableRow(line) {
+    return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+function renderTable(headerLine, bodyLines, parent) {
+    const table = document.createElement('table');
+    const head = document.createElement('thead');
+    const headRow = document.createElement('tr');
+
+    splitTableRow(headerLine).forEach(cell => {
+        const th = document.createElement('th');
+        renderInline(cell, th);
+        headRow.appendChild(th);
+    });
+    head.appendChild(headRow);
+    table.appendChild(head);
+
+    const body = document.createElement('tbody');
+    bodyLines.forEach(line => {
+        const row = document.createElement('tr');
+        splitTableRow(line).forEach(cell => {
+            const td = document.createElement('td');
+            renderInline(cell, td);
+            row.appendChild(td);
+        });
+        body.appendChild(row);
+    });
+    table.appendChild(body);
+    parent.appendChild(table);
+}
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+function renderList(lines, start, parent) {
+    const first = LIST_ITEM.exec(lines[start]);
+    const indent = first[1].length;
+    const ordered = /\d/.test(first[2]);
+    const list = document.createElement(ordered ? 'ol' : 'ul');
+    if (ordered && parseInt(first[2], 10) !== 1) {
+        list.start = parseInt(first[2], 10);
+    }
+
+    let i = start;
+    let item = null;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const match = LIST_ITEM.exec(line);
+
+        if (match && match[1].length === indent && /\d/.test(match[2]) !== ordered) {
+            // A different list type at the same level starts a new list
+            break;
+        } else if (match && match[1].length === indent) {
+            item = document.createElement('li');
+            renderInline(match[3], item);
+            list.appendChild(item);
+            i++;
+        } else if (match && match[1].length > indent && item) {
+            i = renderList(lines, i, item);
+        } else if (line.trim() && /^\s+/.test(line) && item) {
+            // Continuation line of the current item
+            item.appendChild(document.createElement('br'));
+            renderInline(line.trim(), item);
+            i++;
+        } else {
+            break;
+        }
+    }
+
+    parent.appendChild(list);
+    return i;
+}
+
+/**
+ * Renders Markdown into a DocumentFragment. Handles the subset models
+ * actually produce: fenced code (including an unterminated fence while a
+ * response is still streaming), headings, lists, quotes, tables, rules and
+ * inline emphasis, code and links.
+ */
+function renderMarkdown(source) {
+    const fragment = document.createDocumentFragment();
+    const lines = source.replace(/\r\n/g, '\n').split('\n');
+    let paragraph = [];
+    let i = 0;
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            renderParagraph(paragraph, fragment);
+            paragraph = [];
+        }
+    };
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const fence = /^\s*(```|~~~)\s*([\w#+.-]*)/.exec(line);
+
+        if (fence) {
+            flushParagraph();
+            const codeLines = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+                codeLines.push(lines[i]);
+                i++;
+            }
+            i++; // Skip the closing fence
+            fragment.appendChild(createCodeBlock(codeLines.join('\n'), fence[2]));
+            continue;
+        }
+
+        if (!line.trim()) {
+            flushParagraph();
+            i++;
+            continue;
+        }
+
+        const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+        if (heading) {
+            flushParagraph();
+            const element = document.createElement(`h${heading[1].length}`);
+            renderInline(heading[2].replace(/\s+#+\s*$/, ''), element);
+            fragment.appendChild(element);
+            i++;
+            continue;
+        }
+
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            flushParagraph();
+            fragment.appendChild(document.createElement('hr'));
+            i++;
+            continue;
+        }
+
+        if (/^\s*>/.test(line)) {
+            flushParagraph();
+            const quoted = [];
+            while (i < lines.length && /^\s*>/.test(lines[i])) {
+                quoted.push(lines[i].replace(/^\s*>\s?/, ''));
+                i++;
+            }
+            const quote = document.createElement('blockquote');
+            quote.appendChild(renderMarkdown(quoted.join('\n')));
+            fragment.appendChild(quote);
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            flushParagraph();
+            i = renderList(lines, i, fragment);
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(lines[i + 1])) {
+            flushParagraph();
+            const bodyLines = [];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+                bodyLines.push(lines[i]);
+                i++;
+            }
+            renderTable(line, bodyLines, fragment);
+            continue;
+        }
+
+        paragraph.push(line);
+        i++;
+    }
+
+    flushParagraph();
+    return fragment;
+}
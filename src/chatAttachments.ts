@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { OllamaChatAttachment, OllamaChatAttachmentKind } from './chatSessions';
+
+/**
+ * An attachment picked in the chat input or typed as a mention, before its
+ * content has been read.
+ */
+export interface OllamaAttachmentRequest {
+    kind: OllamaChatAttachmentKind;
+    // Workspace-relative path for `#file`
+    path?: string;
+}
+
+// #file:path, #selection, #problems, #git and #terminal at the start of a word;
+// punctuation after a path ends the sentence rather than the file name
+const MENTION_PATTERN = /(^|\s)#(?:file:(\S*[^\s.,;:)!?])|(selection|problems|git|terminal)\b)/g;
+
+// Longest attachment sent to the model; larger ones are cut off with a note
+const MAX_ATTACHMENT_LENGTH = 60000;
+
+const MAX_FILE_SUGGESTIONS = 30;
+const FILE_SEARCH_EXCLUDE = '**/{node_modules,.git,out,dist,build}/**';
+
+/**
+ * Returns the attachments mentioned in a message, so mentions typed without
+ * the autocomplete (or in `Ask Ollama`) work as well.
+ */
+export function parseMentions(text: string): OllamaAttachmentRequest[] {
+    const requests: OllamaAttachmentRequest[] = [];
+    for (const match of text.matchAll(MENTION_PATTERN)) {
+        requests.push(match[2]
+            ? { kind: 'file', path: match[2] }
+            : { kind: match[3] as OllamaChatAttachmentKind });
+    }
+    return requests;
+}
+
+export function isSameAttachment(a: OllamaAttachmentRequest, b: OllamaAttachmentRequest): boolean {
+    return a.kind === b.kind && a.path === b.path;
+}
+
+/**
+ * Reads the current content of an attachment. Throws an error describing
+ * why it can't be attached, e.g. when nothing is selected.
+ */
+export async function resolveAttachment(request: OllamaAttachmentRequest): Promise<OllamaChatAttachment> {
+    switch (request.kind) {
+        case 'file':
+            return resolveFile(request.path ?? '');
+        case 'selection':
+            return resolveSelection();
+        case 'problems':
+            return resolveProblems();
+        case 'git':
+            return resolveStagedDiff();
+        case 'terminal':
+            return resolveTerminalSelection();
+    }
+}
+
+/**
+ * Renders a message's attachments as the text appended to it for the model.
+ */
+export function formatAttachments(attachments: OllamaChatAttachment[]): string {
+    return attachments
+        .map(attachment => `${attachment.label}:\n\`\`\`${attachment.language ?? ''}\n${attachment.content}\n\`\`\``)
+        .join('\n\n');
+}
+
+/**
+ * Workspace-relative paths of files whose path contains `query`, for the
+ * `#file:` autocomplete.
+ */
+export async function searchWorkspaceFiles(query: string): Promise<string[]> {
+    // Keep characters that can appear in a path; anything else would be read as glob syntax
+    const term = query.replace(/[^\w.\-/]/g, '');
+    const pattern = term ? `**/*${term.split('/').pop()}*` : '**/*';
+    const uris = await vscode.workspace.findFiles(pattern, FILE_SEARCH_EXCLUDE, 500);
+
+    return uris
+        .map(uri => vscode.workspace.asRelativePath(uri))
+        .filter(relativePath => relativePath.toLowerCase().includes(term.toLowerCase()))
+        // Shorter paths are usually the closer match
+        .sort((a, b) => a.length - b.length || a.localeCompare(b))
+        .slice(0, MAX_FILE_SUGGESTIONS);
+}
+
+async function resolveFile(filePath: string): Promise<OllamaChatAttachment> {
+    const uri = await findWorkspaceFile(filePath);
+    if (!uri) {
+        throw new Error(`${filePath} was not found in the workspace`);
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    return {
+        kind: 'file',
+        label: `#file:${vscode.workspace.asRelativePath(uri)}`,
+        content: truncate(document.getText()),
+        language: document.languageId
+    };
+}
+
+async function findWorkspaceFile(filePath: string): Promise<vscode.Uri | undefined> {
+    const candidates: vscode.Uri[] = [];
+    if (path.isAbsolute(filePath)) {
+        candidates.push(vscode.Uri.file(filePath));
+    }
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        // Multi-root workspaces prefix relative paths with the folder name
+        const prefix = `${folder.name}/`;
+        const relativePath = filePath.startsWith(prefix) ? filePath.substring(prefix.length) : filePath;
+        candidates.push(vscode.Uri.joinPath(folder.uri, relativePath));
+    }
+
+    for (const uri of candidates) {
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.type & vscode.FileType.File) {
+                return uri;
+            }
+        } catch (error) {
+            // Not in this folder
+        }
+    }
+    return undefined;
+}
+
+function resolveSelection(): OllamaChatAttachment {
+    const editor = getEditor();
+    if (!editor || editor.selection.isEmpty) {
+        throw new Error('Select some code in the editor first');
+    }
+
+    const { document, selection } = editor;
+    return {
+        kind: 'selection',
+        label: `#selection (${vscode.workspace.asRelativePath(document.uri)}:${selection.start.line + 1}-${selection.end.line + 1})`,
+        content: truncate(document.getText(selection)),
+        language: document.languageId
+    };
+}
+
+function resolveProblems(): OllamaChatAttachment {
+    const editor = getEditor();
+    if (!editor) {
+        throw new Error('Open a file to attach its problems');
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(editor.document.uri);
+    const diagnostics = vscode.languages.getDiagnostics(editor.document.uri);
+    const severities = ['error', 'warning', 'info', 'hint'];
+    const lines = diagnostics.map(diagnostic => {
+        const { line, character } = diagnostic.range.start;
+        const source = diagnostic.source ? ` (${diagnostic.source})` : '';
+        const code = editor.document.lineAt(line).text.trim();
+        return `${relativePath}:${line + 1}:${character + 1} ${severities[diagnostic.severity]}: ${diagnostic.message}${source}\n    ${code}`;
+    });
+
+    return {
+        kind: 'problems',
+        label: `#problems (${relativePath})`,
+        content: lines.length > 0 ? truncate(lines.join('\n')) : 'No problems reported'
+    };
+}
+
+async function resolveStagedDiff(): Promise<OllamaChatAttachment> {
+    const editor = getEditor();
+    const folder = (editor && vscode.workspace.getWorkspaceFolder(editor.document.uri))
+        ?? vscode.workspace.workspaceFolders?.[0];
+    if (!folder || folder.uri.scheme !== 'file') {
+        throw new Error('Open a folder under git to attach its staged changes');
+    }
+
+    const diff = await new Promise<string>((resolve, reject) => {
+        execFile('git', ['diff', '--cached'], { cwd: folder.uri.fsPath, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr.trim() || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+    if (!diff.trim()) {
+        throw new Error('There are no staged changes');
+    }
+
+    return {
+        kind: 'git',
+        label: `#git (staged changes in ${folder.name})`,
+        content: truncate(diff),
+        language: 'diff'
+    };
+}
+
+/**
+ * The extension API can't read terminal output, so the terminal's selection
+ * is copied through the clipboard, which is restored afterwards.
+ */
+async function resolveTerminalSelection(): Promise<OllamaChatAttachment> {
+    const terminal = vscode.window.activeTerminal;
+    if (!terminal) {
+        throw new Error('No terminal is open');
+    }
+
+    const clipboard = await vscode.env.clipboard.readText();
+    let selection: string;
+    try {
+        await vscode.env.clipboard.writeText('');
+        await vscode.commands.executeCommand('workbench.action.terminal.copySelection');
+        selection = await vscode.env.clipboard.readText();
+    } finally {
+        await vscode.env.clipboard.writeText(clipboard);
+    }
+    if (!selection.trim()) {
+        throw new Error(`Select the output to attach in the ${terminal.name} terminal first`);
+    }
+
+    return {
+        kind: 'terminal',
+        label: `#terminal (${terminal.name})`,
+        content: truncate(selection)
+    };
+}
+
+// The chat view has focus, so fall back to the last visible text editor
+function getEditor(): vscode.TextEditor | undefined {
+    return vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+}
+
+function truncate(content: string): string {
+    return content.length > MAX_ATTACHMENT_LENGTH
+        ? `${content.substring(0, MAX_ATTACHMENT_LENGTH)}\n[truncated ${content.length - MAX_ATTACHMENT_LENGTH} characters]`
+        : content;
+}
@@ -1,32 +1,125 @@
 import * as vscode from 'vscode';
-import { OllamaApi, OllamaMessage } from './ollamaApi';
+import { OllamaApi, OllamaMessage, OllamaModelOptions, OllamaRequestCancelledError } from './ollamaApi';
+import { OllamaChatAttachment, OllamaChatMessage, OllamaChatReference, OllamaChatSession, OllamaChatSummary, OllamaChatSessionStore, DEFAULT_SESSION_NAME } from './chatSessions';
+import { OllamaWorkspaceIndex } from './workspaceIndex';
+import { OllamaPersonaStore } from './personas';
+import { estimateMessageTokens } from './tokenEstimator';
+import { OllamaAttachmentRequest, formatAttachments, isSameAttachment, parseMentions, resolveAttachment, searchWorkspaceFiles } from './chatAttachments';
+
+export interface OllamaChatContext {
+    code: string;
+    language: string;
+    fileName?: string;
+    uri?: vscode.Uri;
+    range?: vscode.Range;
+    // Document version the range was taken from
+    version?: number;
+}
+
+type OllamaCodeAction = 'insert' | 'replace' | 'copy' | 'newFile';
+
+/**
+ * How much of the model's context window the conversation takes, and which
+ * messages (by index in the session) no longer fit and are left out.
+ */
+interface OllamaContextUsage {
+    used: number;
+    limit: number;
+    excluded: number[];
+}
+
+/**
+ * What happens to messages that no longer fit: `truncate` leaves them out,
+ * `summarize` replaces them with a running summary.
+ */
+type OllamaHistoryStrategy = 'truncate' | 'summarize';
+
+// Tokens kept free for the reply when the request doesn't set num_predict
+const RESPONSE_RESERVE = 1024;
+
+// Tokens kept for the summary of older messages, and the most of each message it reads
+const SUMMARY_RESERVE = 512;
+const SUMMARY_INPUT_LENGTH = 4000;
+// Share of the budget the recent messages may fill once summarized, so the next turns fit without summarizing again
+const SUMMARY_HEADROOM = 0.5;
+
+// Messages mentioning @workspace are answered with code retrieved from the index
+const WORKSPACE_MENTION = /(^|\s)@workspace\b/;
+
+// Fence languages that differ from the VS Code language identifier
+const FENCE_LANGUAGE_IDS: Record<string, string> = {
+    js: 'javascript',
+    jsx: 'javascriptreact',
+    ts: 'typescript',
+    tsx: 'typescriptreact',
+    py: 'python',
+    rb: 'ruby',
+    rs: 'rust',
+    cs: 'csharp',
+    'c#': 'csharp',
+    'c++': 'cpp',
+    golang: 'go',
+    sh: 'shellscript',
+    bash: 'shellscript',
+    zsh: 'shellscript',
+    shell: 'shellscript',
+    ps1: 'powershell',
+    yml: 'yaml',
+    md: 'markdown',
+    kt: 'kotlin'
+};
 
 export class OllamaChatProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'ollamaChat';
     
     private _view?: vscode.WebviewView;
     private ollamaApi: OllamaApi;
-    private chatHistory: OllamaMessage[] = [];
+    private workspaceIndex: OllamaWorkspaceIndex;
+    private personaStore: OllamaPersonaStore;
+    private sessionStore: OllamaChatSessionStore;
+    private session: OllamaChatSession;
     private maxHistory: number = 20;
+    private historyStrategy: OllamaHistoryStrategy = 'truncate';
+    private workspaceTopK: number = 5;
+    private isWebviewReady: boolean = false;
+    private pendingPrompts: string[] = [];
+    private messageQueue: Promise<void> = Promise.resolve();
+    private activeRequest?: AbortController;
+    private sourceSelection?: { uri: vscode.Uri; range: vscode.Range; version: number };
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        ollamaApi: OllamaApi
+        ollamaApi: OllamaApi,
+        workspaceIndex: OllamaWorkspaceIndex,
+        personaStore: OllamaPersonaStore,
+        sessionStore: OllamaChatSessionStore
     ) {
         this.ollamaApi = ollamaApi;
+        this.workspaceIndex = workspaceIndex;
+        this.personaStore = personaStore;
+        this.sessionStore = sessionStore;
+        this.session = sessionStore.getActiveSession();
         this.updateConfig();
         
         // Listen for configuration changes
         vscode.workspace.onDidChangeConfiguration((event) => {
             if (event.affectsConfiguration('ollama')) {
                 this.updateConfig();
+                this.refreshUsage();
             }
         });
+
+        personaStore.onDidChange(() => {
+            this.updatePersonasView();
+            this.refreshUsage();
+        });
     }
 
     private updateConfig() {
         const config = vscode.workspace.getConfiguration('ollama');
         this.maxHistory = config.get<number>('chat.maxHistory', 20);
+        this.historyStrategy = config.get<OllamaHistoryStrategy>('chat.historyStrategy', 'truncate');
+        this.workspaceTopK = config.get<number>('workspaceIndex.topK', 5);
     }
 
     public resolveWebviewView(
@@ -35,11 +128,12 @@ export class OllamaChatProvider implements vscode.WebviewViewProvider {
         _token: vscode.CancellationToken,
     ) {
         this._view = webviewView;
+        this.isWebviewReady = false;
 
         webviewView.webview.options = {
             enableScripts: true,
             localResourceRoots: [
-                this._extensionUri
+                vscode.Uri.joinPath(this._extensionUri, 'media')
             ]
         };
 
@@ -47,8 +141,17 @@ export class OllamaChatProvider implements vscode.WebviewViewProvider {
 
         webviewView.webview.onDidReceiveMessage(async (data) => {
             switch (data.type) {
+                case 'ready':
+                    this.onWebviewReady();
+                    break;
                 case 'sendMessage':
-                    await this.handleSendMessage(data.message);
+                    await this.enqueueMessage(data.message, data.attachments ?? []);
+                    break;
+                case 'searchFiles':
+                    await this.suggestFiles(data.query);
+                    break;
+                case 'stopGeneration':
+                    this.stopGeneration();
                     break;
                 case 'clearChat':
                     this.clearChat();
@@ -56,90 +159,664 @@ export class OllamaChatProvider implements vscode.WebviewViewProvider {
                 case 'selectModel':
                     await this.selectModel();
                     break;
+                case 'codeAction':
+                    await this.handleCodeAction(data.action, data.code, data.language);
+                    break;
+                case 'selectPersona':
+                    this.selectPersona(data.name);
+                    break;
+                case 'editSummary':
+                    this.editSummary(data.content);
+                    break;
+                case 'togglePin':
+                    this.togglePin(data.index);
+                    break;
+                case 'openReference':
+                    await this.openReference(data.reference);
+                    break;
+                case 'newChat':
+                    this.newChat();
+                    break;
+                case 'switchSession':
+                    this.switchSession(data.sessionId);
+                    break;
+                case 'renameSession':
+                    await this.renameSession();
+                    break;
+                case 'deleteSession':
+                    await this.deleteSession();
+                    break;
+            }
+        });
+
+        webviewView.onDidChangeVisibility(() => {
+            // Hidden webviews drop their content and post 'ready' again when shown
+            if (!webviewView.visible) {
+                this.isWebviewReady = false;
             }
         });
+
+        webviewView.onDidDispose(() => {
+            this._view = undefined;
+            this.isWebviewReady = false;
+        });
+    }
+
+    /**
+     * Sends a prompt to the chat as if the user had typed it. If the chat view
+     * has not been resolved yet, the prompt is queued and sent once it loads.
+     */
+    public async sendPrompt(prompt: string, context?: OllamaChatContext): Promise<void> {
+        const message = this.formatPrompt(prompt, context);
+
+        // Replace targets the code sent with the latest prompt, or the selection when there was none
+        this.sourceSelection = context?.uri && context.range && context.version !== undefined
+            ? { uri: context.uri, range: context.range, version: context.version }
+            : undefined;
+
+        if (!this._view || !this.isWebviewReady) {
+            this.pendingPrompts.push(message);
+            await vscode.commands.executeCommand(`${OllamaChatProvider.viewType}.focus`);
+            return;
+        }
+
+        this._view.show?.(true);
+        await this.enqueueMessage(message);
+    }
+
+    private formatPrompt(prompt: string, context?: OllamaChatContext): string {
+        if (!context) {
+            return prompt;
+        }
+
+        const source = context.fileName ? ` (${context.fileName})` : '';
+        return `${prompt}\n\nCode${source}:\n\`\`\`${context.language}\n${context.code}\n\`\`\``;
+    }
+
+    private async handleCodeAction(action: OllamaCodeAction, code: string, language: string) {
+        try {
+            switch (action) {
+                case 'insert':
+                    await this.insertAtCursor(code);
+                    break;
+                case 'replace':
+                    await this.replaceSelection(code);
+                    break;
+                case 'copy':
+                    await vscode.env.clipboard.writeText(code);
+                    vscode.window.showInformationMessage('Code copied to clipboard');
+                    break;
+                case 'newFile':
+                    await this.openInNewFile(code, language);
+                    break;
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to apply code: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    private async insertAtCursor(code: string) {
+        // The chat view has focus, so fall back to the last visible text editor
+        const editor = vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+        if (!editor) {
+            vscode.window.showWarningMessage('No active editor found');
+            return;
+        }
+
+        await editor.edit(editBuilder => {
+            editBuilder.replace(editor.selection, code);
+        });
+    }
+
+    /**
+     * Replaces the selection the last editor command was run on, or the
+     * current selection if the chat was not started from the editor.
+     */
+    private async replaceSelection(code: string) {
+        let target = this.sourceSelection;
+        let stale = false;
+
+        // The range no longer points at the code that was sent once its file was edited
+        if (target && (await vscode.workspace.openTextDocument(target.uri)).version !== target.version) {
+            this.sourceSelection = undefined;
+            target = undefined;
+            stale = true;
+        }
+
+        if (!target) {
+            const editor = vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+            if (!editor || editor.selection.isEmpty) {
+                vscode.window.showWarningMessage(stale
+                    ? 'The file changed since the code was sent. Select the code to replace.'
+                    : 'No selection to replace');
+                return;
+            }
+            target = { uri: editor.document.uri, range: editor.selection, version: editor.document.version };
+        }
+
+        const document = await vscode.workspace.openTextDocument(target.uri);
+        const range = document.validateRange(target.range);
+        // Code blocks use \n; match the document so the new selection's end can be computed
+        const text = code.replace(/\r?\n/g, document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n');
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, range, text);
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage('Failed to replace the selection');
+            return;
+        }
+
+        const editor = await vscode.window.showTextDocument(document);
+        const end = document.positionAt(document.offsetAt(range.start) + text.length);
+        editor.selection = new vscode.Selection(range.start, end);
+
+        // Keep tracking the replaced code so it can be replaced again
+        this.sourceSelection = { uri: document.uri, range: new vscode.Range(range.start, end), version: document.version };
+    }
+
+    private async openReference(reference: OllamaChatReference) {
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(reference.uri));
+            const range = document.validateRange(new vscode.Range(reference.startLine, 0, reference.endLine, Number.MAX_SAFE_INTEGER));
+            const editor = await vscode.window.showTextDocument(document, { preview: true });
+            editor.selection = new vscode.Selection(range.start, range.start);
+            editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to open ${reference.label}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    private async openInNewFile(code: string, language: string) {
+        const fenceLanguage = language.toLowerCase();
+        const languageId = FENCE_LANGUAGE_IDS[fenceLanguage] ?? fenceLanguage;
+        const knownLanguages = await vscode.languages.getLanguages();
+
+        const document = await vscode.workspace.openTextDocument({
+            content: code,
+            language: knownLanguages.includes(languageId) ? languageId : 'plaintext'
+        });
+        await vscode.window.showTextDocument(document);
+    }
+
+    private onWebviewReady() {
+        this.isWebviewReady = true;
+        this.updateSessionsView();
+        this.updatePersonasView();
+        this.updateWebview();
+        this.refreshUsage();
+
+        // Flush prompts that were sent before the view could receive them
+        const prompts = this.pendingPrompts;
+        this.pendingPrompts = [];
+        for (const prompt of prompts) {
+            this.enqueueMessage(prompt);
+        }
     }
 
-    private async handleSendMessage(userMessage: string) {
-        if (!userMessage.trim()) {
+    private enqueueMessage(userMessage: string, attachments: OllamaAttachmentRequest[] = []): Promise<void> {
+        // Run one request at a time so responses never interleave in history
+        this.messageQueue = this.messageQueue
+            .then(() => this.handleSendMessage(userMessage, attachments))
+            .catch(error => console.error('Chat error:', error));
+        return this.messageQueue;
+    }
+
+    private async handleSendMessage(userMessage: string, requestedAttachments: OllamaAttachmentRequest[]) {
+        if (!userMessage.trim() && requestedAttachments.length === 0) {
+            return;
+        }
+
+        // Responses always belong to the session the message was sent from
+        const session = this.session;
+        const attachments = await this.resolveAttachments(userMessage, requestedAttachments);
+        if (!userMessage.trim() && attachments.length === 0) {
             return;
         }
 
         // Add user message to history
-        const userMsg: OllamaMessage = {
+        const userMsg: OllamaChatMessage = {
             role: 'user',
-            content: userMessage.trim()
+            content: userMessage.trim(),
+            attachments: attachments.length > 0 ? attachments : undefined
         };
         
-        this.addMessageToHistory(userMsg);
+        session.messages.push(userMsg);
+        this.nameSessionFromMessage(session, userMsg.content || attachments[0].label);
+        this.sessionStore.save(session);
         this.updateWebview();
 
         // Show typing indicator
         this.showTypingIndicator();
 
+        const history = session.messages.slice();
+
+        const assistantMsg: OllamaChatMessage = {
+            role: 'assistant',
+            content: ''
+        };
+        session.messages.push(assistantMsg);
+
+        const request = new AbortController();
+        this.activeRequest = request;
+
+        const { model, options: modelOptions, generation, systemPrompt } = this.getRequestSettings(session);
+
         try {
-            // Prepare messages for API call
-            const messages = [...this.chatHistory];
-            
-            // Stream the response
-            let assistantMessage = '';
-            const assistantMsg: OllamaMessage = {
-                role: 'assistant',
-                content: ''
-            };
-            
-            this.addMessageToHistory(assistantMsg);
+            let latestContent: string | undefined;
+            if (WORKSPACE_MENTION.test(userMsg.content)) {
+                const { prompt, references } = await this.getWorkspaceContext(userMsg.content, request.signal);
+                // Only this request carries the retrieved code; the history keeps what was typed
+                latestContent = this.formatForModel({ ...userMsg, content: prompt });
+                assistantMsg.references = references;
+            }
+
+            let selection = await this.getMessagesForModel(history, model, modelOptions, { latestContent, summary: session.summary, systemPrompt });
+            if (selection.unsummarized > 0) {
+                try {
+                    await this.updateSummary(session, history, selection.unsummarized, model, request.signal);
+                } catch (error) {
+                    if (error instanceof OllamaRequestCancelledError) {
+                        throw error;
+                    }
+                    // Answer anyway; the older messages are left out as with truncation
+                    vscode.window.showWarningMessage(
+                        `Failed to summarize earlier messages: ${error instanceof Error ? error.message : 'Unknown error'}`
+                    );
+                }
+                selection = await this.getMessagesForModel(history, model, modelOptions, { latestContent, summary: session.summary, systemPrompt });
+            }
+            const { messages, usage } = selection;
+            this.postUsage(usage);
 
             await this.ollamaApi.streamChatCompletion(
                 {
-                    model: this.ollamaApi.getDefaultModel(),
+                    model,
                     messages: messages,
-                    options: {
-                        temperature: 0.7,
-                        top_p: 0.9
-                    }
+                    ...generation,
+                    options: modelOptions
                 },
                 (chunk: string) => {
-                    assistantMessage += chunk;
-                    // Update the last message in history
-                    if (this.chatHistory.length > 0) {
-                        this.chatHistory[this.chatHistory.length - 1].content = assistantMessage;
-                    }
+                    assistantMsg.content += chunk;
                     this.updateWebview();
-                }
+                },
+                { signal: request.signal, role: 'chat' }
             );
+        } catch (error) {
+            if (error instanceof OllamaRequestCancelledError) {
+                // Keep whatever was generated so far, unless nothing arrived
+                if (assistantMsg.content) {
+                    assistantMsg.interrupted = true;
+                } else {
+                    this.removeMessage(session, assistantMsg);
+                }
+            } else {
+                console.error('Chat error:', error);
 
-            // Ensure the final message is set
-            if (this.chatHistory.length > 0) {
-                this.chatHistory[this.chatHistory.length - 1].content = assistantMessage;
+                // Replace the partial assistant message with the error
+                this.removeMessage(session, assistantMsg);
+                
+                const errorMsg: OllamaChatMessage = {
+                    role: 'assistant',
+                    content: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
+                };
+                
+                session.messages.push(errorMsg);
             }
-
-        } catch (error) {
-            console.error('Chat error:', error);
-            
-            // Remove the empty assistant message and show error
-            if (this.chatHistory.length > 0 && this.chatHistory[this.chatHistory.length - 1].role === 'assistant') {
-                this.chatHistory.pop();
+        } finally {
+            if (this.activeRequest === request) {
+                this.activeRequest = undefined;
             }
-            
-            const errorMsg: OllamaMessage = {
-                role: 'assistant',
-                content: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
-            };
-            
-            this.addMessageToHistory(errorMsg);
         }
 
+        this.sessionStore.save(session);
         this.hideTypingIndicator();
         this.updateWebview();
+        this.refreshUsage();
     }
 
-    private addMessageToHistory(message: OllamaMessage) {
-        this.chatHistory.push(message);
-        
-        // Trim history if it exceeds max length
-        if (this.chatHistory.length > this.maxHistory * 2) { // *2 because each exchange has user + assistant
-            this.chatHistory = this.chatHistory.slice(-this.maxHistory * 2);
+    /**
+     * Resolves what a session's requests are sent with. The workspace system
+     * prompt comes first and the persona's prompt after it; the persona's
+     * model and options take precedence over the chat settings.
+     */
+    private getRequestSettings(session: OllamaChatSession) {
+        const persona = this.personaStore.getPersona(session.persona);
+        const { options, ...generation } = this.ollamaApi.getGenerationSettings('chat');
+        const systemPrompt = [
+            vscode.workspace.getConfiguration('ollama').get<string>('chat.systemPrompt', ''),
+            persona?.systemPrompt
+        ].map(prompt => prompt?.trim()).filter(Boolean).join('\n\n');
+
+        const modelOptions: OllamaModelOptions = {
+            temperature: 0.7,
+            top_p: 0.9,
+            ...options,
+            ...persona?.options
+        };
+        return {
+            model: persona?.model || this.ollamaApi.getModelForRole('chat'),
+            options: modelOptions,
+            generation,
+            systemPrompt: systemPrompt || undefined
+        };
+    }
+
+    /**
+     * Returns the part of the conversation that is sent to the model, after
+     * the system prompt. Pinned messages go first; then messages are taken newest first until the
+     * context window, less room for the reply, is full or `chat.maxHistory`
+     * exchanges are reached. The full history stays in the session.
+     *
+     * With the `summarize` strategy, room is kept for the summary, which is
+     * sent first in place of the messages it covers. When the context window
+     * overflows, `unsummarized` is the number of leading messages a new
+     * summary should cover, leaving the recent messages half the budget;
+     * otherwise it is 0. Messages left out only by `chat.maxHistory` don't
+     * count as overflow.
+     */
+    private async getMessagesForModel(
+        history: OllamaChatMessage[],
+        model: string,
+        options: OllamaModelOptions,
+        { latestContent, summary, systemPrompt }: { latestContent?: string; summary?: OllamaChatSummary; systemPrompt?: string } = {}
+    ): Promise<{ messages: OllamaMessage[]; usage: OllamaContextUsage; unsummarized: number }> {
+        const limit = await this.ollamaApi.getContextLength(model, options);
+        const reserved = options.num_predict && options.num_predict > 0
+            ? options.num_predict
+            : Math.min(RESPONSE_RESERVE, Math.floor(limit / 4));
+        const summarize = this.historyStrategy === 'summarize';
+        const summaryMessage: OllamaMessage | undefined = summarize && summary
+            ? { role: 'system', content: `Summary of the earlier conversation:\n${summary.content}` }
+            : undefined;
+        const summaryCost = summarize
+            ? Math.max(Math.min(SUMMARY_RESERVE, Math.floor(limit / 8)), summaryMessage ? estimateMessageTokens(summaryMessage) : 0)
+            : 0;
+        const systemMessage: OllamaMessage | undefined = systemPrompt ? { role: 'system', content: systemPrompt } : undefined;
+        const systemCost = systemMessage ? estimateMessageTokens(systemMessage) : 0;
+        const budget = limit - reserved - summaryCost - systemCost;
+
+        const messages = history.map((message, index): OllamaMessage => ({
+            role: message.role,
+            content: index === history.length - 1 && latestContent !== undefined
+                ? latestContent
+                : this.formatForModel(message)
+        }));
+        const costs = messages.map(estimateMessageTokens);
+
+        const included = new Set<number>();
+        let used = 0;
+        history.forEach((message, index) => {
+            if (message.pinned) {
+                included.add(index);
+                used += costs[index];
+            }
+        });
+
+        const summarized = summaryMessage ? summary!.messageCount : 0;
+        let recent = 0;
+        let overflowed = false;
+        for (let index = history.length - 1; index >= 0; index--) {
+            if (included.has(index)) {
+                continue;
+            }
+            // The newest message is always sent; older ones stop at the summary, the limit or the first that doesn't fit
+            const isLatest = index === history.length - 1;
+            if (!isLatest && (index < summarized || recent >= this.maxHistory * 2)) {
+                break;
+            }
+            if (!isLatest && used + costs[index] > budget) {
+                overflowed = true;
+                break;
+            }
+            included.add(index);
+            used += costs[index];
+            recent++;
+        }
+
+        const excluded = history.map((_message, index) => index).filter(index => !included.has(index));
+        const selected = messages.filter((_message, index) => included.has(index));
+
+        // Summarize past the overflow, down to the newest messages that fill the headroom
+        let needed = 0;
+        if (summarize && overflowed) {
+            let kept = 0;
+            history.forEach((message, index) => {
+                kept += message.pinned ? costs[index] : 0;
+            });
+            needed = history.length - 1;
+            kept += history[needed].pinned ? 0 : costs[needed];
+            while (needed > 0 && (history[needed - 1].pinned || kept + costs[needed - 1] <= budget * SUMMARY_HEADROOM)) {
+                needed--;
+                kept += history[needed].pinned ? 0 : costs[needed];
+            }
+        }
+        const unsummarized = needed > (summary?.messageCount ?? 0) ? needed : 0;
+        if (summaryMessage && excluded.length > 0) {
+            selected.unshift(summaryMessage);
+            used += estimateMessageTokens(summaryMessage);
+        }
+        if (systemMessage) {
+            selected.unshift(systemMessage);
+            used += systemCost;
+        }
+
+        return {
+            messages: selected,
+            usage: { used, limit, excluded },
+            unsummarized
+        };
+    }
+
+    /**
+     * Extends the session's summary to cover its first `messageCount`
+     * messages. Only the messages the summary doesn't cover yet are sent,
+     * along with the previous summary, so the cost stays flat as the
+     * conversation grows. Pinned messages are sent anyway and are skipped.
+     */
+    private async updateSummary(
+        session: OllamaChatSession,
+        history: OllamaChatMessage[],
+        messageCount: number,
+        model: string,
+        signal: AbortSignal
+    ): Promise<void> {
+        const previous = session.summary;
+        const transcript = history
+            .slice(previous?.messageCount ?? 0, messageCount)
+            .filter(message => !message.pinned)
+            .map(message => {
+                const content = this.formatForModel(message);
+                const text = content.length > SUMMARY_INPUT_LENGTH
+                    ? `${content.substring(0, SUMMARY_INPUT_LENGTH)} [...]`
+                    : content;
+                return `${message.role === 'user' ? 'User' : 'Assistant'}: ${text}`;
+            })
+            .join('\n\n');
+
+        const response = await this.ollamaApi.generateChatCompletion({
+            model,
+            messages: [
+                {
+                    role: 'system',
+                    content: 'You maintain a running summary of a conversation between a developer and a coding assistant. Keep the goals, decisions, constraints, file and function names, errors and their fixes, and open questions. Drop pleasantries and code that is no longer relevant. Respond with only the updated summary as concise bullet points.'
+                },
+                {
+                    role: 'user',
+                    content: `${previous ? `Current summary:\n${previous.content}\n\n` : ''}Messages to add:\n\n${transcript}`
+                }
+            ],
+            options: {
+                temperature: 0.2,
+                num_predict: SUMMARY_RESERVE
+            }
+        }, { signal, role: 'chat' });
+
+        session.summary = { content: response.content.trim(), messageCount };
+        this.sessionStore.save(session);
+        this.updateWebview();
+    }
+
+    private editSummary(content: string) {
+        const summary = this.session.summary;
+        if (!summary) {
+            return;
+        }
+        if (content.trim()) {
+            summary.content = content.trim();
+        } else {
+            // An emptied summary is regenerated the next time it is needed
+            this.session.summary = undefined;
+        }
+        this.sessionStore.save(this.session);
+        this.updateWebview();
+        this.refreshUsage();
+    }
+
+    private postUsage(usage: OllamaContextUsage) {
+        this._view?.webview.postMessage({
+            type: 'updateUsage',
+            usage
+        });
+    }
+
+    /**
+     * Updates the context meter for the active session as it would be sent
+     * with the next message.
+     */
+    private async refreshUsage() {
+        if (!this._view) {
+            return;
+        }
+        const session = this.session;
+        const { model, options, systemPrompt } = this.getRequestSettings(session);
+        try {
+            const { usage } = await this.getMessagesForModel(
+                session.messages,
+                model,
+                options,
+                { summary: session.summary, systemPrompt }
+            );
+            if (session === this.session) {
+                this.postUsage(usage);
+            }
+        } catch (error) {
+            console.error('Failed to estimate context usage:', error);
+        }
+    }
+
+    private togglePin(index: number) {
+        const message = this.session.messages[index];
+        if (!message) {
+            return;
+        }
+        message.pinned = message.pinned ? undefined : true;
+        this.sessionStore.save(this.session);
+        this.updateWebview();
+        this.refreshUsage();
+    }
+
+    private formatForModel(message: OllamaChatMessage): string {
+        if (!message.attachments?.length) {
+            return message.content;
+        }
+        return `${message.content}\n\n${formatAttachments(message.attachments)}`.trim();
+    }
+
+    /**
+     * Reads the attachments picked in the input and those mentioned in the
+     * text. One that can't be read is skipped with a warning instead of
+     * holding up the message.
+     */
+    private async resolveAttachments(
+        userMessage: string,
+        requested: OllamaAttachmentRequest[]
+    ): Promise<OllamaChatAttachment[]> {
+        const unique: OllamaAttachmentRequest[] = [];
+        for (const request of [...requested, ...parseMentions(userMessage)]) {
+            if (!unique.some(existing => isSameAttachment(existing, request))) {
+                unique.push(request);
+            }
+        }
+
+        const attachments: OllamaChatAttachment[] = [];
+        for (const request of unique) {
+            try {
+                attachments.push(await resolveAttachment(request));
+            } catch (error) {
+                const mention = request.kind === 'file' ? `#file:${request.path}` : `#${request.kind}`;
+                vscode.window.showWarningMessage(
+                    `Could not attach ${mention}: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        }
+        return attachments;
+    }
+
+    private async suggestFiles(query: string) {
+        try {
+            const files = await searchWorkspaceFiles(query ?? '');
+            this._view?.webview.postMessage({ type: 'fileSuggestions', query, files });
+        } catch (error) {
+            console.error('File search failed:', error);
+        }
+    }
+
+    /**
+     * Searches the workspace index for the question and returns it with the
+     * matching chunks attached as numbered snippets, plus a citation for each.
+     */
+    private async getWorkspaceContext(
+        message: string,
+        signal: AbortSignal
+    ): Promise<{ prompt: string; references: OllamaChatReference[] }> {
+        const question = message.replace(new RegExp(WORKSPACE_MENTION.source, 'g'), '$1').trim() || message;
+        const matches = await this.workspaceIndex.search(question, this.workspaceTopK, signal);
+        if (matches.length === 0) {
+            return { prompt: question, references: [] };
+        }
+
+        const references = matches.map(match => ({
+            uri: match.uri.toString(),
+            label: `${vscode.workspace.asRelativePath(match.uri)}:${match.startLine + 1}-${match.endLine + 1}`,
+            startLine: match.startLine,
+            endLine: match.endLine
+        }));
+        const snippets = matches.map((match, index) =>
+            `[${index + 1}] ${references[index].label}\n\`\`\`\n${match.text}\n\`\`\``
+        );
+
+        return {
+            prompt: `${question}\n\nRelevant code from the workspace:\n\n${snippets.join('\n\n')}\n\n`
+                + 'Use this code to answer where it is relevant, and cite the snippets you rely on by number, e.g. [1].',
+            references
+        };
+    }
+
+    private nameSessionFromMessage(session: OllamaChatSession, content: string) {
+        if (session.name !== DEFAULT_SESSION_NAME) {
+            return;
+        }
+
+        const firstLine = content.split('\n')[0].trim();
+        session.name = firstLine.length > 40 ? `${firstLine.substring(0, 40)}…` : firstLine;
+        this.updateSessionsView();
+    }
+
+    /**
+     * Cancels the response that is currently streaming, if any.
+     */
+    public stopGeneration() {
+        this.activeRequest?.abort();
+    }
+
+    private removeMessage(session: OllamaChatSession, message: OllamaChatMessage) {
+        const index = session.messages.indexOf(message);
+        if (index !== -1) {
+            session.messages.splice(index, 1);
         }
     }
 
@@ -158,209 +835,150 @@ export class OllamaChatProvider implements vscode.WebviewViewProvider {
     private updateWebview() {
         this._view?.webview.postMessage({
             type: 'updateMessages',
-            messages: this.chatHistory
+            // The webview only shows attachment labels; their content can be large
+            messages: this.session.messages.map(message => ({
+                ...message,
+                attachments: message.attachments?.map(({ kind, label }) => ({ kind, label }))
+            })),
+            summary: this.session.summary
+        });
+    }
+
+    private updatePersonasView() {
+        this._view?.webview.postMessage({
+            type: 'updatePersonas',
+            personas: this.personaStore.getPersonas().map(({ name, description }) => ({ name, description })),
+            activePersona: this.session.persona ?? ''
+        });
+    }
+
+    private selectPersona(name: string) {
+        this.session.persona = name || undefined;
+        this.sessionStore.save(this.session);
+        this.updatePersonasView();
+        this.refreshUsage();
+    }
+
+    private updateSessionsView() {
+        this._view?.webview.postMessage({
+            type: 'updateSessions',
+            sessions: this.sessionStore.getSessions().map(({ id, name }) => ({ id, name })),
+            activeSessionId: this.session.id
         });
     }
 
     public clearChat() {
-        this.chatHistory = [];
+        this.stopGeneration();
+        this.session.messages = [];
+        this.session.summary = undefined;
+        this.sessionStore.save(this.session);
         this.updateWebview();
+        this.refreshUsage();
         vscode.window.showInformationMessage('Chat history cleared');
     }
 
-    private async selectModel() {
-        try {
-            const models = await this.ollamaApi.getModels();
-            const modelNames = models.map(m => m.name);
-            
-            if (modelNames.length === 0) {
-                vscode.window.showWarningMessage('No Ollama models found. Please ensure Ollama is running and has models installed.');
-                return;
-            }
+    /**
+     * Starts a new, empty chat session and makes it active.
+     */
+    public newChat() {
+        this.activateSession(this.sessionStore.createSession());
+    }
 
-            const selected = await vscode.window.showQuickPick(modelNames, {
-                placeHolder: 'Select an Ollama model'
-            });
+    public switchSession(sessionId: string) {
+        const session = this.sessionStore.getSession(sessionId);
+        if (session && session !== this.session) {
+            this.sessionStore.setActiveSession(session.id);
+            this.activateSession(session);
+        }
+    }
 
-            if (selected) {
-                const config = vscode.workspace.getConfiguration('ollama');
-                await config.update('model', selected, vscode.ConfigurationTarget.Global);
-                vscode.window.showInformationMessage(`Model changed to: ${selected}`);
-            }
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to load models: ${error}`);
+    public async renameSession() {
+        const session = this.session;
+        const name = await vscode.window.showInputBox({
+            prompt: 'Rename chat session',
+            value: session.name
+        });
+
+        if (name && name.trim()) {
+            await this.sessionStore.renameSession(session.id, name.trim());
+            this.updateSessionsView();
         }
     }
 
+    public async deleteSession() {
+        const session = this.session;
+        const confirmed = await vscode.window.showWarningMessage(
+            `Delete chat session "${session.name}"?`,
+            { modal: true },
+            'Delete'
+        );
+
+        if (confirmed === 'Delete') {
+            this.activateSession(this.sessionStore.deleteSession(session.id));
+        }
+    }
+
+    private activateSession(session: OllamaChatSession) {
+        // A response that is still streaming stays with its own session
+        this.stopGeneration();
+        this.session = session;
+        this.sourceSelection = undefined;
+        this.updateSessionsView();
+        this.updatePersonasView();
+        this.updateWebview();
+        this.refreshUsage();
+    }
+
+    private async selectModel() {
+        await vscode.commands.executeCommand('ollama.selectModel', 'chat');
+    }
+
     private _getHtmlForWebview(webview: vscode.Webview) {
+        const mediaUri = (file: string) => webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', file));
+        const nonce = getNonce();
+
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Ollama Chat</title>
-    <style>
-        body {
-            font-family: var(--vscode-font-family);
-            font-size: var(--vscode-font-size);
-            background-color: var(--vscode-editor-background);
-            color: var(--vscode-editor-foreground);
-            margin: 0;
-            padding: 0;
-            height: 100vh;
-            display: flex;
-            flex-direction: column;
-        }
-        
-        .header {
-            padding: 10px;
-            border-bottom: 1px solid var(--vscode-widget-border);
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
-        }
-        
-        .header h3 {
-            margin: 0;
-            font-size: 14px;
-        }
-        
-        .header-buttons {
-            display: flex;
-            gap: 5px;
-        }
-        
-        .header-button {
-            background: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-            border: none;
-            padding: 4px 8px;
-            cursor: pointer;
-            font-size: 12px;
-            border-radius: 2px;
-        }
-        
-        .header-button:hover {
-            background: var(--vscode-button-hoverBackground);
-        }
-        
-        .messages {
-            flex: 1;
-            overflow-y: auto;
-            padding: 10px;
-            display: flex;
-            flex-direction: column;
-            gap: 10px;
-        }
-        
-        .message {
-            padding: 8px 12px;
-            border-radius: 8px;
-            max-width: 85%;
-            word-wrap: break-word;
-            white-space: pre-wrap;
-        }
-        
-        .user-message {
-            background-color: var(--vscode-inputValidation-infoBorder);
-            color: var(--vscode-input-foreground);
-            align-self: flex-end;
-            margin-left: auto;
-        }
-        
-        .assistant-message {
-            background-color: var(--vscode-editor-inactiveSelectionBackground);
-            color: var(--vscode-editor-foreground);
-            align-self: flex-start;
-        }
-        
-        .typing-indicator {
-            background-color: var(--vscode-editor-inactiveSelectionBackground);
-            color: var(--vscode-editor-foreground);
-            align-self: flex-start;
-            padding: 8px 12px;
-            border-radius: 8px;
-            font-style: italic;
-            opacity: 0.7;
-        }
-        
-        .input-container {
-            padding: 10px;
-            border-top: 1px solid var(--vscode-widget-border);
-            display: flex;
-            gap: 8px;
-        }
-        
-        .message-input {
-            flex: 1;
-            background: var(--vscode-input-background);
-            color: var(--vscode-input-foreground);
-            border: 1px solid var(--vscode-input-border);
-            padding: 8px;
-            font-family: inherit;
-            font-size: inherit;
-            resize: vertical;
-            min-height: 36px;
-            max-height: 120px;
-        }
-        
-        .message-input:focus {
-            outline: none;
-            border-color: var(--vscode-focusBorder);
-        }
-        
-        .send-button {
-            background: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-            border: none;
-            padding: 8px 16px;
-            cursor: pointer;
-            font-family: inherit;
-            font-size: inherit;
-            border-radius: 2px;
-        }
-        
-        .send-button:hover {
-            background: var(--vscode-button-hoverBackground);
-        }
-        
-        .send-button:disabled {
-            opacity: 0.5;
-            cursor: not-allowed;
-        }
-        
-        .empty-state {
-            flex: 1;
-            display: flex;
-            flex-direction: column;
-            justify-content: center;
-            align-items: center;
-            text-align: center;
-            color: var(--vscode-descriptionForeground);
-            gap: 10px;
-        }
-        
-        .empty-state h4 {
-            margin: 0;
-            font-size: 16px;
-        }
-        
-        .empty-state p {
-            margin: 0;
-            font-size: 14px;
-            opacity: 0.8;
-        }
-    </style>
+    <link href="${mediaUri('chat.css')}" rel="stylesheet">
 </head>
 <body>
     <div class="header">
         <h3>Ollama Chat</h3>
         <div class="header-buttons">
-            <button class="header-button" onclick="selectModel()">Model</button>
-            <button class="header-button" onclick="clearChat()">Clear</button>
+            <select class="persona-select" id="personaSelect" title="Persona"></select>
+            <button class="header-button" data-action="selectModel">Model</button>
+            <button class="header-button" data-action="clearChat">Clear</button>
         </div>
     </div>
     
+    <div class="session-bar">
+        <select class="session-select" id="sessionSelect" title="Chat sessions"></select>
+        <button class="header-button" data-action="newChat" title="New chat">New</button>
+        <button class="header-button" data-action="renameSession" title="Rename chat">Rename</button>
+        <button class="header-button" data-action="deleteSession" title="Delete chat">Delete</button>
+    </div>
+    
+    <div class="context-usage" id="contextUsage">
+        <div class="context-usage-bar"><div class="context-usage-fill" id="contextUsageFill"></div></div>
+        <span class="context-usage-text" id="contextUsageText"></span>
+    </div>
+    
+    <details class="summary" id="summary">
+        <summary>Summary of earlier messages</summary>
+        <div class="summary-text" id="summaryText"></div>
+        <textarea class="summary-input" id="summaryInput" rows="6"></textarea>
+        <div class="summary-buttons">
+            <button class="header-button" id="editSummaryButton" data-action="editSummary">Edit</button>
+            <button class="header-button" id="saveSummaryButton" data-action="saveSummary">Save</button>
+            <button class="header-button" id="cancelSummaryButton" data-action="cancelSummaryEdit">Cancel</button>
+        </div>
+    </details>
+    
     <div class="messages" id="messages">
         <div class="empty-state">
             <h4>Welcome to Ollama Chat</h4>
@@ -368,128 +986,31 @@ export class OllamaChatProvider implements vscode.WebviewViewProvider {
         </div>
     </div>
     
+    <div class="attachment-chips" id="attachmentChips"></div>
     <div class="input-container">
+        <div class="mention-suggestions" id="mentionSuggestions" role="listbox"></div>
         <textarea 
             class="message-input" 
             id="messageInput" 
-            placeholder="Type your message here..." 
+            placeholder="Type your message here... Use # to attach context" 
             rows="1"
         ></textarea>
-        <button class="send-button" id="sendButton" onclick="sendMessage()">Send</button>
+        <button class="send-button" id="sendButton" data-action="sendMessage">Send</button>
+        <button class="stop-button" id="stopButton" data-action="stopGeneration">Stop</button>
     </div>
 
-    <script>
-        const vscode = acquireVsCodeApi();
-        let messages = [];
-        
-        window.addEventListener('message', event => {
-            const message = event.data;
-            switch (message.type) {
-                case 'updateMessages':
-                    messages = message.messages;
-                    updateMessagesView();
-                    break;
-                case 'showTyping':
-                    showTypingIndicator();
-                    break;
-                case 'hideTyping':
-                    hideTypingIndicator();
-                    break;
-            }
-        });
-        
-        function updateMessagesView() {
-            const messagesContainer = document.getElementById('messages');
-            
-            if (messages.length === 0) {
-                messagesContainer.innerHTML = \`
-                    <div class="empty-state">
-                        <h4>Welcome to Ollama Chat</h4>
-                        <p>Start a conversation with your AI assistant</p>
-                    </div>
-                \`;
-                return;
-            }
-            
-            messagesContainer.innerHTML = '';
-            
-            messages.forEach(msg => {
-                const messageDiv = document.createElement('div');
-                messageDiv.className = \`message \${msg.role === 'user' ? 'user-message' : 'assistant-message'}\`;
-                messageDiv.textContent = msg.content;
-                messagesContainer.appendChild(messageDiv);
-            });
-            
-            // Scroll to bottom
-            messagesContainer.scrollTop = messagesContainer.scrollHeight;
-        }
-        
-        function showTypingIndicator() {
-            const messagesContainer = document.getElementById('messages');
-            const existingIndicator = document.querySelector('.typing-indicator');
-            
-            if (!existingIndicator) {
-                const typingDiv = document.createElement('div');
-                typingDiv.className = 'typing-indicator';
-                typingDiv.textContent = 'Ollama is typing...';
-                messagesContainer.appendChild(typingDiv);
-                messagesContainer.scrollTop = messagesContainer.scrollHeight;
-            }
-        }
-        
-        function hideTypingIndicator() {
-            const indicator = document.querySelector('.typing-indicator');
-            if (indicator) {
-                indicator.remove();
-            }
-        }
-        
-        function sendMessage() {
-            const input = document.getElementById('messageInput');
-            const message = input.value.trim();
-            
-            if (message) {
-                vscode.postMessage({
-                    type: 'sendMessage',
-                    message: message
-                });
-                input.value = '';
-                adjustTextareaHeight();
-            }
-        }
-        
-        function clearChat() {
-            vscode.postMessage({
-                type: 'clearChat'
-            });
-        }
-        
-        function selectModel() {
-            vscode.postMessage({
-                type: 'selectModel'
-            });
-        }
-        
-        function adjustTextareaHeight() {
-            const textarea = document.getElementById('messageInput');
-            textarea.style.height = 'auto';
-            textarea.style.height = Math.min(textarea.scrollHeight, 120) + 'px';
-        }
-        
-        // Event listeners
-        document.getElementById('messageInput').addEventListener('keydown', function(e) {
-            if (e.key === 'Enter' && !e.shiftKey) {
-                e.preventDefault();
-                sendMessage();
-            }
-        });
-        
-        document.getElementById('messageInput').addEventListener('input', adjustTextareaHeight);
-        
-        // Initialize
-        adjustTextareaHeight();
-    </script>
+    <script nonce="${nonce}" src="${mediaUri('markdown.js')}"></script>
+    <script nonce="${nonce}" src="${mediaUri('chat.js')}"></script>
 </body>
 </html>`;
     }
-}
\ No newline at end of file
+}
+
+function getNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
+}
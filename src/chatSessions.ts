@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { OllamaMessage } from './ollamaApi';
+
+/**
+ * A workspace location an answer was based on, shown as a clickable
+ * citation under the message. Lines are zero-based.
+ */
+export interface OllamaChatReference {
+    uri: string;
+    label: string;
+    startLine: number;
+    endLine: number;
+}
+
+export type OllamaChatAttachmentKind = 'file' | 'selection' | 'problems' | 'git' | 'terminal';
+
+/**
+ * Editor state attached to a user message with a `#` mention. The content is
+ * captured when the message is sent and goes to the model with every later
+ * request, so follow-up questions still see it. Only the start of it is kept
+ * when the session is stored.
+ */
+export interface OllamaChatAttachment {
+    kind: OllamaChatAttachmentKind;
+    label: string;
+    content: string;
+    language?: string;
+}
+
+export interface OllamaChatMessage extends OllamaMessage {
+    interrupted?: boolean;
+    references?: OllamaChatReference[];
+    attachments?: OllamaChatAttachment[];
+    // Pinned messages are sent to the model however long the conversation gets
+    pinned?: boolean;
+}
+
+/**
+ * A running summary of the start of a conversation, sent in place of the
+ * messages it covers once they no longer fit in the context window.
+ */
+export interface OllamaChatSummary {
+    content: string;
+    // Number of leading messages the summary covers
+    messageCount: number;
+}
+
+export interface OllamaChatSession {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    messages: OllamaChatMessage[];
+    summary?: OllamaChatSummary;
+    // Name of the persona the session talks to
+    persona?: string;
+}
+
+export const DEFAULT_SESSION_NAME = 'New Chat';
+
+// Attachment content written to workspace state; the full content only lasts until the window reloads
+const MAX_STORED_ATTACHMENT_LENGTH = 2000;
+
+/**
+ * Stores named chat sessions in workspace state so conversations survive
+ * reloads. Sessions are kept in creation order under a single key; the
+ * in-memory copy is authoritative and writes are persisted in the background.
+ */
+export class OllamaChatSessionStore {
+    private static readonly sessionsKey = 'ollama.chatSessions';
+    private static readonly activeSessionKey = 'ollama.activeChatSession';
+
+    private sessions: OllamaChatSession[];
+
+    constructor(private readonly state: vscode.Memento) {
+        this.sessions = state.get<OllamaChatSession[]>(OllamaChatSessionStore.sessionsKey, []);
+    }
+
+    getSessions(): OllamaChatSession[] {
+        return this.sessions;
+    }
+
+    getSession(id: string): OllamaChatSession | undefined {
+        return this.sessions.find(session => session.id === id);
+    }
+
+    /**
+     * Returns the session that was active last, creating one if none exist.
+     */
+    getActiveSession(): OllamaChatSession {
+        const activeId = this.state.get<string>(OllamaChatSessionStore.activeSessionKey);
+        const session = activeId ? this.getSession(activeId) : undefined;
+
+        if (session) {
+            return session;
+        }
+        if (this.sessions.length > 0) {
+            const latest = this.sessions[this.sessions.length - 1];
+            this.setActiveSession(latest.id);
+            return latest;
+        }
+        return this.createSession();
+    }
+
+    setActiveSession(id: string): Thenable<void> {
+        return this.state.update(OllamaChatSessionStore.activeSessionKey, id);
+    }
+
+    createSession(name: string = DEFAULT_SESSION_NAME): OllamaChatSession {
+        const now = Date.now();
+        const session: OllamaChatSession = {
+            id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            name,
+            createdAt: now,
+            updatedAt: now,
+            messages: []
+        };
+
+        this.sessions.push(session);
+        this.persist();
+        this.setActiveSession(session.id);
+        return session;
+    }
+
+    renameSession(id: string, name: string): Thenable<void> {
+        const session = this.getSession(id);
+        if (!session) {
+            return Promise.resolve();
+        }
+        session.name = name;
+        return this.save(session);
+    }
+
+    /**
+     * Deletes a session and returns the session that should become active.
+     */
+    deleteSession(id: string): OllamaChatSession {
+        this.sessions = this.sessions.filter(session => session.id !== id);
+        this.persist();
+
+        if (this.sessions.length === 0) {
+            return this.createSession();
+        }
+
+        const next = this.sessions[this.sessions.length - 1];
+        this.setActiveSession(next.id);
+        return next;
+    }
+
+    save(session: OllamaChatSession): Thenable<void> {
+        session.updatedAt = Date.now();
+        return this.persist();
+    }
+
+    private persist(): Thenable<void> {
+        return this.state.update(OllamaChatSessionStore.sessionsKey, this.sessions.map(toStoredSession));
+    }
+}
+
+/**
+ * Copies a session with its attachments cut down, so every saved message
+ * doesn't rewrite whole files into workspace state.
+ */
+function toStoredSession(session: OllamaChatSession): OllamaChatSession {
+    if (!session.messages.some(message => message.attachments?.length)) {
+        return session;
+    }
+
+    return {
+        ...session,
+        messages: session.messages.map(message => message.attachments ? {
+            ...message,
+            attachments: message.attachments.map(attachment => attachment.content.length > MAX_STORED_ATTACHMENT_LENGTH
+                ? {
+                    ...attachment,
+                    content: `${attachment.content.substring(0, MAX_STORED_ATTACHMENT_LENGTH)}\n[truncated ${attachment.content.length - MAX_STORED_ATTACHMENT_LENGTH} characters when the chat was saved]`
+                }
+                : attachment)
+        } : message)
+    };
+}
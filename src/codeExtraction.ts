@@ -0,0 +1,68 @@
+/**
+ * Helpers for pulling code out of free-form model responses, which often
+ * wrap the answer in prose and Markdown fences despite being asked not to.
+ */
+
+const FENCE_PATTERN = /(```|~~~)[ \t]*([\w#+.-]*)[^\n]*\n([\s\S]*?)(?:\n[ \t]*\1|$)/g;
+
+/**
+ * Returns the code from a model response. When the response contains fenced
+ * blocks, the largest one is used, preferring blocks tagged with `language`.
+ * Otherwise the response is assumed to be bare code.
+ */
+export function extractCode(response: string, language?: string): string {
+    const blocks: { language: string; code: string }[] = [];
+    let match: RegExpExecArray | null;
+
+    FENCE_PATTERN.lastIndex = 0;
+    while ((match = FENCE_PATTERN.exec(response)) !== null) {
+        blocks.push({ language: match[2].toLowerCase(), code: match[3] });
+    }
+
+    if (blocks.length === 0) {
+        return trimBlankLines(response);
+    }
+
+    const tagged = language
+        ? blocks.filter(block => block.language === language.toLowerCase())
+        : [];
+    const candidates = tagged.length > 0 ? tagged : blocks;
+    const largest = candidates.reduce((best, block) => block.code.length > best.code.length ? block : best);
+
+    return trimBlankLines(largest.code);
+}
+
+/**
+ * Re-indents `code` so its least indented line starts at `indentation`.
+ */
+export function reindent(code: string, indentation: string): string {
+    const lines = code.split('\n');
+    const common = getCommonIndentation(lines);
+
+    return lines
+        .map(line => line.trim() ? indentation + line.substring(common.length) : '')
+        .join('\n');
+}
+
+/**
+ * Returns the leading whitespace shared by all non-blank lines.
+ */
+export function getCommonIndentation(lines: string[]): string {
+    let common: string | undefined;
+
+    for (const line of lines) {
+        if (!line.trim()) {
+            continue;
+        }
+        const indentation = line.match(/^[ \t]*/)![0];
+        if (common === undefined || indentation.length < common.length) {
+            common = indentation;
+        }
+    }
+
+    return common ?? '';
+}
+
+function trimBlankLines(text: string): string {
+    return text.replace(/^\s*\n/, '').replace(/\s+$/, '');
+}
@@ -1,26 +1,35 @@
 import * as vscode from 'vscode';
-import { OllamaApi } from './ollamaApi';
+import { OllamaApi, OllamaModelRole } from './ollamaApi';
 import { OllamaModelManager } from './modelManager';
-import { OllamaChatProvider } from './chatProvider';
+import { OllamaModelNode, getModelName } from './modelsView';
+import { OllamaChatProvider, OllamaChatContext } from './chatProvider';
 import { OllamaCompletionProvider } from './completionProvider';
+import { OllamaImprovePreview } from './improvePreview';
+import { OllamaDocstringGenerator, getDocCommentStyle } from './docstringGenerator';
 
 export class OllamaCommandManager {
     private ollamaApi: OllamaApi;
     private modelManager: OllamaModelManager;
     private chatProvider: OllamaChatProvider;
     private completionProvider: OllamaCompletionProvider;
+    private improvePreview: OllamaImprovePreview;
+    private docstringGenerator: OllamaDocstringGenerator;
     private completionsEnabled: boolean = true;
 
     constructor(
         ollamaApi: OllamaApi,
         modelManager: OllamaModelManager,
         chatProvider: OllamaChatProvider,
-        completionProvider: OllamaCompletionProvider
+        completionProvider: OllamaCompletionProvider,
+        improvePreview: OllamaImprovePreview,
+        docstringGenerator: OllamaDocstringGenerator
     ) {
         this.ollamaApi = ollamaApi;
         this.modelManager = modelManager;
         this.chatProvider = chatProvider;
         this.completionProvider = completionProvider;
+        this.improvePreview = improvePreview;
+        this.docstringGenerator = docstringGenerator;
         
         // Initialize completion state from config
         const config = vscode.workspace.getConfiguration('ollama');
@@ -32,8 +41,14 @@ export class OllamaCommandManager {
         const commands = [
             vscode.commands.registerCommand('ollama.openChat', this.openChat.bind(this)),
             vscode.commands.registerCommand('ollama.selectModel', this.selectModel.bind(this)),
+            vscode.commands.registerCommand('ollama.selectEndpoint', () => this.modelManager.selectEndpoint()),
+            vscode.commands.registerCommand('ollama.pullModel', (name?: string) => this.modelManager.pullModel(name)),
+            vscode.commands.registerCommand('ollama.deleteModel', (target?: string | OllamaModelNode) => this.modelManager.deleteModel(getModelName(target))),
+            vscode.commands.registerCommand('ollama.copyModel', (target?: string | OllamaModelNode) => this.modelManager.copyModel(getModelName(target))),
+            vscode.commands.registerCommand('ollama.showModelInfo', (target?: string | OllamaModelNode) => this.modelManager.showModelInfo(getModelName(target))),
             vscode.commands.registerCommand('ollama.toggleCompletions', this.toggleCompletions.bind(this)),
             vscode.commands.registerCommand('ollama.clearChat', this.clearChat.bind(this)),
+            vscode.commands.registerCommand('ollama.newChat', this.newChat.bind(this)),
             vscode.commands.registerCommand('ollama.checkConnection', this.checkConnection.bind(this)),
             vscode.commands.registerCommand('ollama.explainCode', this.explainCode.bind(this)),
             vscode.commands.registerCommand('ollama.improveCode', this.improveCode.bind(this)),
@@ -54,8 +69,8 @@ export class OllamaCommandManager {
         }
     }
 
-    private async selectModel(): Promise<void> {
-        await this.modelManager.selectModel();
+    private async selectModel(role?: OllamaModelRole | 'default'): Promise<void> {
+        await this.modelManager.selectModel(role);
     }
 
     private async toggleCompletions(): Promise<void> {
@@ -74,6 +89,11 @@ export class OllamaCommandManager {
         this.chatProvider.clearChat();
     }
 
+    private async newChat(): Promise<void> {
+        this.chatProvider.newChat();
+        await this.openChat();
+    }
+
     private async checkConnection(): Promise<void> {
         await this.modelManager.showConnectionStatus();
     }
@@ -94,9 +114,9 @@ export class OllamaCommandManager {
         }
 
         const language = editor.document.languageId;
-        const prompt = `Explain this ${language} code in detail:\n\n\`\`\`${language}\n${selectedText}\n\`\`\``;
+        const prompt = `Explain this ${language} code in detail.`;
         
-        await this.sendToChat(prompt);
+        await this.sendToChat(prompt, this.getSelectionContext(editor));
     }
 
     private async improveCode(): Promise<void> {
@@ -114,10 +134,22 @@ export class OllamaCommandManager {
             return;
         }
 
+        const config = vscode.workspace.getConfiguration('ollama');
+        if (config.get<string>('improveCode.mode', 'diff') === 'diff') {
+            try {
+                await this.improvePreview.improveSelection(editor);
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to improve code: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+            return;
+        }
+
         const language = editor.document.languageId;
-        const prompt = `Suggest improvements for this ${language} code. Consider performance, readability, best practices, and potential bugs:\n\n\`\`\`${language}\n${selectedText}\n\`\`\``;
+        const prompt = `Suggest improvements for this ${language} code. Consider performance, readability, best practices, and potential bugs.`;
         
-        await this.sendToChat(prompt);
+        await this.sendToChat(prompt, this.getSelectionContext(editor));
     }
 
     private async generateDocstring(): Promise<void> {
@@ -136,71 +168,59 @@ export class OllamaCommandManager {
         }
 
         const language = editor.document.languageId;
-        let docstringStyle = '';
-        
-        switch (language) {
-            case 'python':
-                docstringStyle = 'Python docstring (Google style)';
-                break;
-            case 'javascript':
-            case 'typescript':
-                docstringStyle = 'JSDoc comment';
-                break;
-            case 'java':
-                docstringStyle = 'Javadoc comment';
-                break;
-            case 'csharp':
-                docstringStyle = 'XML documentation comment';
-                break;
-            default:
-                docstringStyle = 'appropriate documentation comment';
+        const style = getDocCommentStyle(language);
+
+        if (style) {
+            try {
+                await this.docstringGenerator.insertDocumentation(editor, style);
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to generate documentation: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+            return;
         }
 
-        const prompt = `Generate a comprehensive ${docstringStyle} for this ${language} code. Include parameter descriptions, return value, and any important notes:\n\n\`\`\`${language}\n${selectedText}\n\`\`\``;
+        // Languages without a known comment style get the documentation in the chat
+        const prompt = `Generate a comprehensive appropriate documentation comment for this ${language} code. Include parameter descriptions, return value, and any important notes.`;
         
-        await this.sendToChat(prompt);
+        await this.sendToChat(prompt, this.getSelectionContext(editor));
     }
 
     private async askQuestion(): Promise<void> {
         const editor = vscode.window.activeTextEditor;
-        let contextPrompt = '';
+        let context: OllamaChatContext | undefined;
         
-        if (editor) {
-            const selection = editor.selection;
-            const selectedText = editor.document.getText(selection);
-            
-            if (selectedText.trim()) {
-                const language = editor.document.languageId;
-                contextPrompt = `\n\nContext (${language} code):\n\`\`\`${language}\n${selectedText}\n\`\`\``;
-            }
+        if (editor && editor.document.getText(editor.selection).trim()) {
+            context = this.getSelectionContext(editor);
         }
 
         const question = await vscode.window.showInputBox({
             prompt: 'Ask Ollama a question',
-            placeHolder: 'What would you like to know?'
+            placeHolder: 'What would you like to know? Mention #file:path, #problems, #git or #terminal to attach context'
         });
 
         if (question && question.trim()) {
-            const fullPrompt = question.trim() + contextPrompt;
-            await this.sendToChat(fullPrompt);
+            await this.sendToChat(question.trim(), context);
         }
     }
 
-    private async sendToChat(message: string): Promise<void> {
+    private getSelectionContext(editor: vscode.TextEditor): OllamaChatContext {
+        return {
+            code: editor.document.getText(editor.selection),
+            language: editor.document.languageId,
+            fileName: vscode.workspace.asRelativePath(editor.document.uri),
+            uri: editor.document.uri,
+            range: editor.selection,
+            version: editor.document.version
+        };
+    }
+
+    private async sendToChat(prompt: string, context?: OllamaChatContext): Promise<void> {
         // Open chat panel
         await this.openChat();
         
-        // Send message to chat
-        // Note: In a real implementation, you'd need to expose a method in chatProvider
-        // to programmatically send messages. For now, we'll show the message to copy/paste
-        vscode.window.showInformationMessage(
-            'Chat opened. Please paste this message:',
-            'Copy Message'
-        ).then(selection => {
-            if (selection === 'Copy Message') {
-                vscode.env.clipboard.writeText(message);
-            }
-        });
+        await this.chatProvider.sendPrompt(prompt, context);
     }
 }
 
@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+
+/**
+ * A least-recently-used map. Map iteration follows insertion order, so
+ * re-inserting an entry on every access keeps the oldest entry first.
+ */
+export class LruCache<K, V> {
+    private entries = new Map<K, V>();
+
+    constructor(private readonly capacity: number) {}
+
+    get(key: K): V | undefined {
+        const value = this.entries.get(key);
+        if (value !== undefined) {
+            this.entries.delete(key);
+            this.entries.set(key, value);
+        }
+        return value;
+    }
+
+    set(key: K, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+
+        if (this.entries.size > this.capacity) {
+            const oldest = this.entries.keys().next().value as K;
+            this.entries.delete(oldest);
+        }
+    }
+
+    /**
+     * Returns the values from most to least recently used.
+     */
+    values(): V[] {
+        return Array.from(this.entries.values()).reverse();
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+export interface OllamaCompletionRequestKey {
+    model: string;
+    documentUri: string;
+    // Document text before the cursor line
+    textBeforeLine: string;
+    // Text on the cursor line before the cursor
+    linePrefix: string;
+    // Document text after the cursor
+    suffix: string;
+}
+
+interface CacheEntry {
+    contextHash: string;
+    linePrefix: string;
+    completion: string;
+}
+
+/**
+ * Remembers recent completions by a hash of the text around the cursor.
+ * Besides exact hits it recognizes when the user has typed the start of a
+ * cached suggestion and returns the rest, so no new request is needed.
+ */
+export class OllamaCompletionCache {
+    private entries: LruCache<string, CacheEntry>;
+
+    constructor(capacity: number = 100) {
+        this.entries = new LruCache(capacity);
+    }
+
+    lookup(key: OllamaCompletionRequestKey): string | undefined {
+        const contextHash = this.hashContext(key);
+
+        const exact = this.entries.get(this.hashEntry(contextHash, key.linePrefix));
+        if (exact !== undefined) {
+            return exact.completion;
+        }
+
+        for (const entry of this.entries.values()) {
+            if (entry.contextHash !== contextHash || !key.linePrefix.startsWith(entry.linePrefix)) {
+                continue;
+            }
+
+            const typed = key.linePrefix.substring(entry.linePrefix.length);
+            if (entry.completion.length > typed.length && entry.completion.startsWith(typed)) {
+                return entry.completion.substring(typed.length);
+            }
+        }
+
+        return undefined;
+    }
+
+    store(key: OllamaCompletionRequestKey, completion: string): void {
+        const contextHash = this.hashContext(key);
+        this.entries.set(this.hashEntry(contextHash, key.linePrefix), {
+            contextHash,
+            linePrefix: key.linePrefix,
+            completion
+        });
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    // Everything except the cursor line prefix, which changes as the user types
+    private hashContext(key: OllamaCompletionRequestKey): string {
+        return createHash('sha1')
+            .update(key.model).update('\0')
+            .update(key.documentUri).update('\0')
+            .update(key.textBeforeLine).update('\0')
+            .update(key.suffix)
+            .digest('hex');
+    }
+
+    private hashEntry(contextHash: string, linePrefix: string): string {
+        return createHash('sha1').update(contextHash).update('\0').update(linePrefix).digest('hex');
+    }
+}
@@ -1,12 +1,69 @@
 import * as vscode from 'vscode';
-import { OllamaApi } from './ollamaApi';
+import { OllamaApi, OllamaModel, OllamaModelOptions, OllamaRequestCancelledError } from './ollamaApi';
+import { resolveFimTemplate, renderFimPrompt } from './fimTemplates';
+import { OllamaCompletionMode, trimCompletion } from './completionTrimming';
+import { OllamaCompletionCache, OllamaCompletionRequestKey } from './completionCache';
+import { OllamaContextCollector } from './contextCollector';
+import { OllamaConnectionMonitor } from './connectionMonitor';
+import { affectsEndpoints } from './endpoints';
+
+// How much of the document around the cursor is sent with FIM prompts
+const FIM_PREFIX_LINES = 50;
+const FIM_SUFFIX_LINES = 20;
+
+// Lines after the cursor checked for code the completion would repeat
+const FOLLOWING_LINES = 5;
+
+// Minimum time between refreshes of the installed model list
+const MODEL_REFRESH_INTERVAL = 60000;
+
+export const DEFAULT_COMPLETION_LANGUAGES = [
+    'javascript', 'typescript', 'python', 'java', 'csharp', 'cpp', 'c',
+    'go', 'rust', 'php', 'ruby', 'swift', 'kotlin', 'scala', 'r',
+    'html', 'css', 'scss', 'less', 'json', 'yaml', 'xml', 'markdown',
+    'dockerfile', 'makefile', 'shellscript', 'powershell', 'sql'
+];
+
+/**
+ * The languages inline completions are registered for, from
+ * `ollama.completions.languages`.
+ */
+export function getCompletionLanguages(): string[] {
+    const config = vscode.workspace.getConfiguration('ollama');
+    return config.get<string[]>('completions.languages', DEFAULT_COMPLETION_LANGUAGES);
+}
+
+/**
+ * Completion settings that can be overridden per language, resolved for a
+ * document, e.g. `"[python]": { "ollama.completions.model": "..." }`.
+ */
+interface OllamaLanguageCompletionSettings {
+    enabled: boolean;
+    model: string;
+    maxTokens: number;
+    temperature: number;
+    triggerChars: string[];
+    // `ollama.completions.options`, which take precedence over the settings above
+    options: OllamaModelOptions;
+    keepAlive?: string | number;
+}
 
 export class OllamaCompletionProvider implements vscode.InlineCompletionItemProvider {
     private ollamaApi: OllamaApi;
+    private contextCollector: OllamaContextCollector;
+    private connectionMonitor: OllamaConnectionMonitor;
     private isEnabled: boolean = true;
+    private mode: OllamaCompletionMode = 'singleLine';
+    private debounceMs: number = 250;
+    private cache = new OllamaCompletionCache();
+    private models = new Map<string, OllamaModel>();
+    private modelsFetchedAt: number = 0;
+    private registration?: vscode.Disposable;
 
-    constructor(ollamaApi: OllamaApi) {
+    constructor(ollamaApi: OllamaApi, contextCollector: OllamaContextCollector, connectionMonitor: OllamaConnectionMonitor) {
         this.ollamaApi = ollamaApi;
+        this.contextCollector = contextCollector;
+        this.connectionMonitor = connectionMonitor;
         this.updateConfig();
         
         // Listen for configuration changes
@@ -14,13 +71,58 @@ export class OllamaCompletionProvider implements vscode.InlineCompletionItemProv
             if (event.affectsConfiguration('ollama')) {
                 this.updateConfig();
                 this.ollamaApi.updateConfig();
+                // Cached suggestions may come from another model or mode
+                this.cache.clear();
+            }
+            if (affectsEndpoints(event) || event.affectsConfiguration('ollama.model') ||
+                event.affectsConfiguration('ollama.completions.model')) {
+                // The installed models may differ, so look them up again
+                this.modelsFetchedAt = 0;
             }
         });
     }
 
+    /**
+     * Registers the provider for the configured languages, and registers it
+     * again whenever that list changes.
+     */
+    register(context: vscode.ExtensionContext): void {
+        this.registerForLanguages();
+
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('ollama.completions.languages')) {
+                    this.registerForLanguages();
+                }
+            }),
+            { dispose: () => this.registration?.dispose() }
+        );
+    }
+
+    private registerForLanguages() {
+        this.registration?.dispose();
+        this.registration = vscode.languages.registerInlineCompletionItemProvider(getCompletionLanguages(), this);
+    }
+
+    getLanguageSettings(document: vscode.TextDocument): OllamaLanguageCompletionSettings {
+        const config = vscode.workspace.getConfiguration('ollama', document);
+        const generation = this.ollamaApi.getGenerationSettings('completions', document);
+        return {
+            enabled: config.get<boolean>('completions.enabled', true),
+            model: this.ollamaApi.getModelForRole('completions', document),
+            maxTokens: config.get<number>('completions.maxTokens', 100),
+            temperature: config.get<number>('completions.temperature', 0.1),
+            triggerChars: config.get<string[]>('completions.triggerChars', []),
+            options: generation.options ?? {},
+            keepAlive: generation.keep_alive
+        };
+    }
+
     private updateConfig() {
         const config = vscode.workspace.getConfiguration('ollama');
         this.isEnabled = config.get<boolean>('completions.enabled', true);
+        this.mode = config.get<OllamaCompletionMode>('completions.mode', 'singleLine');
+        this.debounceMs = config.get<number>('completions.debounceMs', 250);
     }
 
     async provideInlineCompletionItems(
@@ -34,6 +136,23 @@ export class OllamaCompletionProvider implements vscode.InlineCompletionItemProv
             return null;
         }
 
+        const settings = this.getLanguageSettings(document);
+        if (!settings.enabled) {
+            return null;
+        }
+
+        // The monitor resumes completions once the server is back
+        if (!this.connectionMonitor.isAvailable()) {
+            return null;
+        }
+
+        // Reuse a cached suggestion, including one the user is typing through
+        const cacheKey = this.getCacheKey(document, position, settings.model);
+        const cached = this.cache.lookup(cacheKey);
+        if (cached !== undefined) {
+            return this.toInlineItems(cached, position);
+        }
+
         // Don't provide completions if we're in the middle of a word
         const wordRange = document.getWordRangeAtPosition(position);
         if (wordRange && wordRange.start.character < position.character) {
@@ -43,61 +162,212 @@ export class OllamaCompletionProvider implements vscode.InlineCompletionItemProv
         // Get context before cursor
         const linePrefix = document.lineAt(position).text.substring(0, position.character);
         
-        // Skip if line is empty or just whitespace
-        if (linePrefix.trim().length === 0) {
+        // Skip if line is empty or just whitespace, unless a whole block may be suggested
+        if (linePrefix.trim().length === 0 && this.mode === 'singleLine') {
+            return null;
+        }
+
+        // While typing, only ask the model after one of the trigger characters
+        if (context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic &&
+            !this.endsWithTriggerChar(linePrefix, settings.triggerChars)) {
+            return null;
+        }
+
+        // Wait for a pause in typing; VS Code cancels the token on the next keystroke
+        if (!await this.debounce(token)) {
             return null;
         }
 
         try {
-            const completion = await this.getCompletion(document, position, token);
-            if (!completion || completion.trim().length === 0) {
+            const completion = await this.getCompletion(document, position, settings, token);
+            if (completion === null) {
                 return null;
             }
 
-            return [
-                new vscode.InlineCompletionItem(
-                    completion,
-                    new vscode.Range(position, position)
-                )
-            ];
+            this.cache.store(cacheKey, completion);
+            return this.toInlineItems(completion, position);
         } catch (error) {
             console.error('Completion error:', error);
+            // Find out right away if the server went down, instead of failing on every keystroke
+            this.connectionMonitor.checkNow();
+            return null;
+        }
+    }
+
+    private toInlineItems(completion: string, position: vscode.Position): vscode.InlineCompletionItem[] | null {
+        if (!completion || completion.trim().length === 0) {
             return null;
         }
+
+        return [
+            new vscode.InlineCompletionItem(
+                completion,
+                new vscode.Range(position, position)
+            )
+        ];
+    }
+
+    /**
+     * An empty list allows every character. A cursor at the start of a line,
+     * or after only indentation, counts as following a newline.
+     */
+    private endsWithTriggerChar(linePrefix: string, triggerChars: string[]): boolean {
+        if (triggerChars.length === 0) {
+            return true;
+        }
+        const lastChar = linePrefix.trim() ? linePrefix[linePrefix.length - 1] : '\n';
+        return triggerChars.includes(lastChar);
+    }
+
+    private getCacheKey(document: vscode.TextDocument, position: vscode.Position, model: string): OllamaCompletionRequestKey {
+        const lineStart = new vscode.Position(position.line, 0);
+        const documentEnd = document.lineAt(document.lineCount - 1).range.end;
+
+        return {
+            model,
+            documentUri: document.uri.toString(),
+            textBeforeLine: document.getText(new vscode.Range(new vscode.Position(0, 0), lineStart)),
+            linePrefix: document.getText(new vscode.Range(lineStart, position)),
+            suffix: document.getText(new vscode.Range(position, documentEnd))
+        };
+    }
+
+    /**
+     * Resolves to false if the token is cancelled before the debounce delay.
+     */
+    private debounce(token: vscode.CancellationToken): Promise<boolean> {
+        if (this.debounceMs <= 0) {
+            return Promise.resolve(!token.isCancellationRequested);
+        }
+
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                subscription.dispose();
+                resolve(!token.isCancellationRequested);
+            }, this.debounceMs);
+
+            const subscription = token.onCancellationRequested(() => {
+                clearTimeout(timer);
+                subscription.dispose();
+                resolve(false);
+            });
+        });
     }
 
     private async getCompletion(
         document: vscode.TextDocument,
         position: vscode.Position,
+        settings: OllamaLanguageCompletionSettings,
         token: vscode.CancellationToken
     ): Promise<string | null> {
-        const config = vscode.workspace.getConfiguration('ollama');
-        const maxTokens = config.get<number>('completions.maxTokens', 100);
-        
-        // Get context around cursor position
-        const contextLines = this.getContextLines(document, position);
-        const prompt = this.buildPrompt(document, contextLines, position);
-        const suffix = this.getSuffix(document, position);
+        const { model, maxTokens, temperature, options, keepAlive } = settings;
+        // A blank line ends single-line suggestions early; multi-line modes trim afterwards
+        const stop = [...(this.mode === 'singleLine' ? ['\n\n'] : []), ...(options.stop ?? [])];
+        const fimTemplate = resolveFimTemplate(model, await this.getModelDetails(model));
+        const crossFileContext = await this.getCrossFileContext(document, position);
+        if (token.isCancellationRequested) {
+            return null;
+        }
+
+        // Abort the HTTP request as soon as VS Code no longer needs the result
+        const request = new AbortController();
+        const cancellation = token.onCancellationRequested(() => request.abort());
 
         try {
-            const completion = await this.ollamaApi.generateCompletion({
-                model: this.ollamaApi.getDefaultModel(),
-                prompt: prompt,
-                suffix: suffix,
-                options: {
-                    temperature: 0.1, // Low temperature for more deterministic completions
-                    num_predict: maxTokens,
-                    stop: ['\n\n', '```', '###']
-                }
-            });
+            let completion: string;
 
-            return this.processCompletion(completion, document, position);
+            if (fimTemplate) {
+                // Code models complete raw FIM prompts better than chat-style instructions
+                const { prefix, suffix } = this.getFimContext(document, position);
+                // Snippets from other files go first, as comments the model reads as part of the file
+                const fullPrefix = crossFileContext ? `${crossFileContext}\n${prefix}` : prefix;
+                completion = await this.ollamaApi.generateCompletion({
+                    model,
+                    prompt: renderFimPrompt(fimTemplate, fullPrefix, suffix),
+                    raw: true,
+                    keep_alive: keepAlive,
+                    options: {
+                        temperature,
+                        num_predict: maxTokens,
+                        ...options,
+                        stop: [...stop, ...(fimTemplate.stop ?? [])]
+                    }
+                }, { signal: request.signal, role: 'completions' });
+            } else {
+                // Get context around cursor position
+                const contextLines = this.getContextLines(document, position);
+                const prompt = this.buildPrompt(document, contextLines, crossFileContext);
+                const suffix = this.getSuffix(document, position);
+
+                completion = await this.ollamaApi.generateCompletion({
+                    model,
+                    prompt: prompt,
+                    suffix: suffix,
+                    keep_alive: keepAlive,
+                    options: {
+                        temperature,
+                        num_predict: maxTokens,
+                        ...options,
+                        stop: [...stop, '```', '###']
+                    }
+                }, { signal: request.signal, role: 'completions' });
+            }
+
+            return this.processCompletion(completion, document, position, !!fimTemplate);
         } catch (error) {
-            if (token.isCancellationRequested) {
+            if (error instanceof OllamaRequestCancelledError || token.isCancellationRequested) {
                 return null;
             }
             throw error;
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Looks up a model in the installed model list, which carries the family
+     * used to pick a FIM template. The list is refetched when the model is
+     * missing, at most once per refresh interval.
+     */
+    private async getModelDetails(modelName: string): Promise<OllamaModel | undefined> {
+        const find = () => this.models.get(modelName) ?? this.models.get(`${modelName}:latest`);
+
+        if (!find() && Date.now() - this.modelsFetchedAt > MODEL_REFRESH_INTERVAL) {
+            this.modelsFetchedAt = Date.now();
+            try {
+                const models = await this.ollamaApi.getModels();
+                this.models = new Map(models.map(model => [model.name, model]));
+            } catch (error) {
+                // Fall back to matching the template by model name only
+            }
         }
+
+        return find();
+    }
+
+    private async getCrossFileContext(document: vscode.TextDocument, position: vscode.Position): Promise<string> {
+        const config = vscode.workspace.getConfiguration('ollama');
+        if (!config.get<boolean>('completions.context.enabled', true)) {
+            return '';
+        }
+
+        try {
+            return await this.contextCollector.collect(document, position, config.get<number>('completions.context.maxTokens', 512));
+        } catch (error) {
+            console.error('Failed to collect completion context:', error);
+            return '';
+        }
+    }
+
+    private getFimContext(document: vscode.TextDocument, position: vscode.Position): { prefix: string; suffix: string } {
+        const prefixStart = new vscode.Position(Math.max(0, position.line - FIM_PREFIX_LINES), 0);
+        const suffixEndLine = Math.min(document.lineCount - 1, position.line + FIM_SUFFIX_LINES);
+        const suffixEnd = document.lineAt(suffixEndLine).range.end;
+
+        return {
+            prefix: document.getText(new vscode.Range(prefixStart, position)),
+            suffix: document.getText(new vscode.Range(position, suffixEnd))
+        };
     }
 
     private getContextLines(document: vscode.TextDocument, position: vscode.Position): string[] {
@@ -117,16 +387,24 @@ export class OllamaCompletionProvider implements vscode.InlineCompletionItemProv
         return lines;
     }
 
-    private buildPrompt(document: vscode.TextDocument, contextLines: string[], position: vscode.Position): string {
+    private buildPrompt(document: vscode.TextDocument, contextLines: string[], crossFileContext: string): string {
         const language = document.languageId;
         const fileName = document.fileName.split('/').pop() || 'file';
+        const related = crossFileContext
+            ? `Related code from other files:
+\`\`\`${language}
+${crossFileContext}
+\`\`\`
+
+`
+            : '';
         
         let prompt = `You are an AI code completion assistant. Complete the following ${language} code.
 
 File: ${fileName}
 Language: ${language}
 
-Code context:
+${related}Code context:
 \`\`\`${language}
 ${contextLines.join('\n')}
 \`\`\`
@@ -151,38 +429,51 @@ Complete the code starting from where it left off. Only provide the completion,
         return lines.join('\n').trim();
     }
 
-    private processCompletion(completion: string, document: vscode.TextDocument, position: vscode.Position): string {
+    private processCompletion(completion: string, document: vscode.TextDocument, position: vscode.Position, isFim: boolean): string {
         if (!completion) {
             return '';
         }
 
-        // Clean up the completion
-        let processed = completion.trim();
-        
-        // Remove code block markers if present
-        processed = processed.replace(/^```[\w]*\n?/, '').replace(/\n?```$/, '');
-        
-        // Remove any leading/trailing whitespace on each line but preserve structure
-        const lines = processed.split('\n');
-        const cleanedLines = lines.map((line, index) => {
-            if (index === 0) {
-                // First line: remove leading whitespace but keep structure
-                return line.trimStart();
-            }
-            return line;
-        });
-        
-        processed = cleanedLines.join('\n');
-        
-        // Limit to single line completion for inline suggestions
-        const firstLineEnd = processed.indexOf('\n');
-        if (firstLineEnd !== -1) {
-            processed = processed.substring(0, firstLineEnd);
+        let processed: string;
+
+        if (isFim) {
+            // FIM output continues the prefix exactly, so leading whitespace is meaningful
+            processed = completion.trimEnd();
+        } else {
+            // Clean up the completion
+            processed = completion.trim();
+            
+            // Remove code block markers if present
+            processed = processed.replace(/^```[\w]*\n?/, '').replace(/\n?```$/, '');
+            
+            // Remove any leading/trailing whitespace on each line but preserve structure
+            const lines = processed.split('\n');
+            const cleanedLines = lines.map((line, index) => {
+                if (index === 0) {
+                    // First line: remove leading whitespace but keep structure
+                    return line.trimStart();
+                }
+                return line;
+            });
+            
+            processed = cleanedLines.join('\n');
         }
         
-        // Don't suggest completions that just repeat what's already there
+        // Cut the suggestion to a single line or the block around the cursor
         const currentLineText = document.lineAt(position).text;
         const linePrefix = currentLineText.substring(0, position.character);
+        const followingLines: string[] = [];
+        for (let i = position.line + 1; i < Math.min(document.lineCount, position.line + 1 + FOLLOWING_LINES); i++) {
+            followingLines.push(document.lineAt(i).text);
+        }
+
+        processed = trimCompletion(processed, this.mode, {
+            linePrefix,
+            lineSuffix: currentLineText.substring(position.character),
+            followingLines
+        });
+        
+        // Don't suggest completions that just repeat what's already there
         if (processed.trim() === linePrefix.trim()) {
             return '';
         }
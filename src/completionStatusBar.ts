@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { OllamaCompletionProvider, getCompletionLanguages } from './completionProvider';
+
+/**
+ * Shows whether inline completions are on for the active editor's language
+ * and toggles them for that language only.
+ */
+export class OllamaCompletionStatusBar implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly completionProvider: OllamaCompletionProvider) {
+        this.statusBarItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Right,
+            99
+        );
+        this.statusBarItem.command = 'ollama.toggleLanguageCompletions';
+
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('ollama.completions')) {
+                    this.update();
+                }
+            })
+        );
+        this.update();
+    }
+
+    register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            this,
+            vscode.commands.registerCommand('ollama.toggleLanguageCompletions', () => this.toggleCurrentLanguage())
+        );
+    }
+
+    update(): void {
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document || !getCompletionLanguages().includes(document.languageId)) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const language = document.languageId;
+        if (!this.completionProvider.isCompletionEnabled()) {
+            this.statusBarItem.text = '$(circle-slash) Completions';
+            this.statusBarItem.tooltip = 'Ollama code completions are turned off for all languages';
+        } else if (this.completionProvider.getLanguageSettings(document).enabled) {
+            this.statusBarItem.text = '$(check) Completions';
+            this.statusBarItem.tooltip = `Ollama code completions are on for ${language}. Click to turn them off for ${language}.`;
+        } else {
+            this.statusBarItem.text = '$(circle-slash) Completions';
+            this.statusBarItem.tooltip = `Ollama code completions are off for ${language}. Click to turn them on for ${language}.`;
+        }
+        this.statusBarItem.show();
+    }
+
+    private async toggleCurrentLanguage(): Promise<void> {
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document) {
+            vscode.window.showWarningMessage('Open a file to toggle completions for its language');
+            return;
+        }
+
+        const language = document.languageId;
+        const enabled = !this.completionProvider.getLanguageSettings(document).enabled;
+
+        try {
+            // Write to the workspace when it already overrides the language, since that wins over user settings
+            const config = vscode.workspace.getConfiguration('ollama', { languageId: language });
+            const inspected = config.inspect<boolean>('completions.enabled');
+            const target = inspected?.workspaceLanguageValue !== undefined
+                ? vscode.ConfigurationTarget.Workspace
+                : vscode.ConfigurationTarget.Global;
+            await config.update('completions.enabled', enabled, target, true);
+
+            vscode.window.showInformationMessage(`Ollama code completions ${enabled ? 'enabled' : 'disabled'} for ${language}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to update completion settings: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    dispose(): void {
+        this.statusBarItem.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
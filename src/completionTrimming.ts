@@ -0,0 +1,135 @@
+/**
+ * Decides how much of a raw model completion to show as an inline
+ * suggestion. Models rarely stop where the user would, so multi-line
+ * suggestions are cut at the end of the block the cursor is in.
+ */
+
+export type OllamaCompletionMode = 'singleLine' | 'block' | 'full';
+
+export interface OllamaCompletionSurroundings {
+    // Text on the cursor line before the cursor
+    linePrefix: string;
+    // Text on the cursor line after the cursor
+    lineSuffix: string;
+    // The lines after the cursor line, in document order
+    followingLines: string[];
+}
+
+const OPENERS = '([{';
+const CLOSERS = ')]}';
+
+export function trimCompletion(
+    completion: string,
+    mode: OllamaCompletionMode,
+    surroundings: OllamaCompletionSurroundings
+): string {
+    let lines = completion.split('\n');
+
+    if (mode === 'singleLine') {
+        lines = lines.slice(0, 1);
+    } else {
+        lines = cutAtExistingCode(lines, surroundings.followingLines);
+        if (mode === 'block') {
+            lines = cutAtBlockEnd(lines, surroundings.linePrefix);
+        }
+    }
+
+    // Trailing blank lines would only push the following code down
+    while (lines.length > 1 && !lines[lines.length - 1].trim()) {
+        lines.pop();
+    }
+
+    return removeSuffixOverlap(lines.join('\n').trimEnd(), surroundings.lineSuffix);
+}
+
+/**
+ * Cuts the completion where its indentation drops below the block the
+ * cursor is in, or where it closes the bracket that block was opened with.
+ */
+function cutAtBlockEnd(lines: string[], linePrefix: string): string[] {
+    let blockIndentation = getIndentation(linePrefix).length;
+
+    // When the cursor line opens a block, the block is the deeper body that follows
+    if (/[:{(\[]\s*$/.test(linePrefix)) {
+        const body = lines.slice(1).find(line => line.trim());
+        if (body && getIndentation(body).length > blockIndentation) {
+            blockIndentation = getIndentation(body).length;
+        }
+    }
+
+    // Brackets opened by the completion; below zero it closed one opened before the cursor
+    let depth = 0;
+    // Brackets the completion left open on the cursor line, i.e. the block it started there
+    let cursorLineDepth = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const trimmed = line.trim();
+
+        if (i > 0 && trimmed && getIndentation(line).length < blockIndentation && !CLOSERS.includes(trimmed[0])) {
+            return lines.slice(0, i);
+        }
+
+        for (const char of line) {
+            if (OPENERS.includes(char)) {
+                depth++;
+            } else if (CLOSERS.includes(char)) {
+                depth--;
+            }
+        }
+
+        if (i === 0) {
+            cursorLineDepth = Math.max(depth, 0);
+        }
+
+        // Closed a bracket opened before the cursor, or the block started on the cursor line
+        if (depth < 0 || (i > 0 && depth < cursorLineDepth)) {
+            return lines.slice(0, i + 1);
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Cuts the completion where it starts repeating the code that already
+ * follows the cursor.
+ */
+function cutAtExistingCode(lines: string[], followingLines: string[]): string[] {
+    const nextLine = followingLines.find(line => line.trim())?.trim();
+    if (!nextLine) {
+        return lines;
+    }
+
+    const index = lines.findIndex((line, i) => i > 0 && line.trim() === nextLine);
+    return index === -1 ? lines : lines.slice(0, index);
+}
+
+/**
+ * Drops text at the end of the completion that is already on the line after
+ * the cursor, such as the closing parenthesis of a call being completed.
+ */
+function removeSuffixOverlap(completion: string, lineSuffix: string): string {
+    const suffix = lineSuffix.trim();
+    if (!suffix) {
+        return completion;
+    }
+    if (completion.endsWith(suffix)) {
+        return completion.substring(0, completion.length - suffix.length).trimEnd();
+    }
+
+    const closing = suffix.match(/^[)\]}>;,'"`]+/);
+    if (closing) {
+        for (let length = closing[0].length; length > 0; length--) {
+            if (completion.endsWith(closing[0].substring(0, length))) {
+                return completion.substring(0, completion.length - length);
+            }
+        }
+    }
+
+    return completion;
+}
+
+function getIndentation(line: string): string {
+    return line.match(/^[ \t]*/)![0];
+}
@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import { OllamaApi, OllamaRequestActivity } from './ollamaApi';
+import { affectsEndpoints } from './endpoints';
+
+export type OllamaConnectionState = 'connected' | 'disconnected' | 'loadingModel';
+
+// Poll interval while the server is up
+const CONNECTED_INTERVAL = 30000;
+
+// Retry delays while it is down, doubling up to the maximum
+const RETRY_MIN_INTERVAL = 2000;
+const RETRY_MAX_INTERVAL = 60000;
+
+// How long a request may wait for a model that isn't loaded before it counts as loading
+const LOADING_DELAY = 500;
+
+/**
+ * Polls the Ollama server in the background and tracks whether it is
+ * reachable and whether a model is being loaded for a pending request.
+ * While the server is down, polls back off so a stopped server costs
+ * little; a failed request can ask for an immediate check instead.
+ */
+export class OllamaConnectionMonitor implements vscode.Disposable {
+    private _state: OllamaConnectionState = 'connected';
+    private _loadingModel?: string;
+    private hasChecked = false;
+    private disposed = false;
+    private retryInterval = RETRY_MIN_INTERVAL;
+    private timer?: NodeJS.Timeout;
+    private polling?: Promise<boolean>;
+
+    // Models in memory, from /api/ps and from requests that got a response
+    private loadedModels = new Set<string>();
+    private pendingRequests = new Map<string, number>();
+    private loadingTimers = new Map<string, NodeJS.Timeout>();
+
+    private readonly _onDidChangeState = new vscode.EventEmitter<OllamaConnectionState>();
+    readonly onDidChangeState = this._onDidChangeState.event;
+
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly ollamaApi: OllamaApi) {
+        this.disposables.push(
+            ollamaApi.onDidChangeRequestActivity(activity => this.onRequestActivity(activity)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (affectsEndpoints(event)) {
+                    this.ollamaApi.updateConfig();
+                    this.checkNow();
+                }
+            })
+        );
+    }
+
+    get state(): OllamaConnectionState {
+        return this._state;
+    }
+
+    get loadingModel(): string | undefined {
+        return this._loadingModel;
+    }
+
+    /**
+     * False only once a check has found the server down; requests are
+     * allowed until then.
+     */
+    isAvailable(): boolean {
+        return this._state !== 'disconnected';
+    }
+
+    /**
+     * Starts polling. Resolves with the result of the first check.
+     */
+    start(): Promise<boolean> {
+        return this.checkNow();
+    }
+
+    /**
+     * Checks the server right away and restarts the poll schedule.
+     * Concurrent calls share one check.
+     */
+    checkNow(): Promise<boolean> {
+        if (!this.polling) {
+            if (this.timer) {
+                clearTimeout(this.timer);
+                this.timer = undefined;
+            }
+            this.polling = this.poll().finally(() => {
+                this.polling = undefined;
+            });
+        }
+        return this.polling;
+    }
+
+    private async poll(): Promise<boolean> {
+        const healthy = await this.ollamaApi.isHealthy();
+
+        if (healthy) {
+            try {
+                const running = await this.ollamaApi.getRunningModels();
+                this.loadedModels = new Set(running.map(model => model.name));
+            } catch (error) {
+                // Servers without /api/ps keep the models seen responding
+            }
+        }
+
+        const wasDisconnected = this.hasChecked && this._state === 'disconnected';
+        this.hasChecked = true;
+
+        if (healthy) {
+            this.retryInterval = RETRY_MIN_INTERVAL;
+            this.setState(this._loadingModel ? 'loadingModel' : 'connected');
+            if (wasDisconnected) {
+                vscode.window.showInformationMessage('Reconnected to Ollama');
+            }
+            this.schedule(CONNECTED_INTERVAL);
+        } else {
+            this.clearLoading();
+            this.setState('disconnected');
+            this.schedule(this.retryInterval);
+            this.retryInterval = Math.min(this.retryInterval * 2, RETRY_MAX_INTERVAL);
+        }
+
+        return healthy;
+    }
+
+    private schedule(delay: number) {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        // A check that was in flight when the monitor was disposed must not start polling again
+        if (this.disposed) {
+            return;
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.checkNow();
+        }, delay);
+    }
+
+    private onRequestActivity({ model, waiting, ok }: OllamaRequestActivity) {
+        const pending = (this.pendingRequests.get(model) ?? 0) + (waiting ? 1 : -1);
+        if (pending > 0) {
+            this.pendingRequests.set(model, pending);
+        } else {
+            this.pendingRequests.delete(model);
+        }
+
+        if (waiting) {
+            if (!this.isLoaded(model) && !this.loadingTimers.has(model)) {
+                this.loadingTimers.set(model, setTimeout(() => {
+                    this.loadingTimers.delete(model);
+                    if (this.pendingRequests.has(model) && this._state !== 'disconnected') {
+                        this._loadingModel = model;
+                        this.setState('loadingModel');
+                    }
+                }, LOADING_DELAY));
+            }
+            return;
+        }
+
+        if (pending <= 0) {
+            const timer = this.loadingTimers.get(model);
+            if (timer) {
+                clearTimeout(timer);
+                this.loadingTimers.delete(model);
+            }
+            // A response means the model is in memory now; a failure says nothing about it
+            if (ok) {
+                this.loadedModels.add(model);
+            }
+            if (this._loadingModel === model) {
+                this._loadingModel = undefined;
+                this.setState('connected');
+            }
+        }
+    }
+
+    private isLoaded(model: string): boolean {
+        return this.loadedModels.has(model) || this.loadedModels.has(`${model}:latest`);
+    }
+
+    private clearLoading() {
+        this.loadingTimers.forEach(timer => clearTimeout(timer));
+        this.loadingTimers.clear();
+        this._loadingModel = undefined;
+    }
+
+    private setState(state: OllamaConnectionState) {
+        if (state !== this._state) {
+            this._state = state;
+            this._onDidChangeState.fire(state);
+        }
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.clearLoading();
+        this._onDidChangeState.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,429 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { estimateTokens } from './tokenEstimator';
+
+export interface OllamaContextSnippet {
+    uri: vscode.Uri;
+    startLine: number;
+    text: string;
+}
+
+interface RecentEdit {
+    uri: vscode.Uri;
+    line: number;
+}
+
+interface CachedFile {
+    mtime: number;
+    text: string;
+}
+
+interface ResolvedImports {
+    version: number;
+    uris: vscode.Uri[];
+}
+
+// Size of the windows other files are split into, and the step between them
+const WINDOW_LINES = 20;
+const WINDOW_STEP = 10;
+
+// Lines around the cursor compared against candidate windows
+const CURSOR_WINDOW_LINES = 20;
+
+const MAX_RECENT_EDITS = 20;
+const RECENT_EDIT_RADIUS = 5;
+const MAX_FILE_SIZE = 512 * 1024;
+
+const IMPORT_PATTERNS: Record<string, RegExp[]> = {
+    javascript: [/\bfrom\s+['"](\.[^'"]+)['"]/g, /\brequire\(\s*['"](\.[^'"]+)['"]\s*\)/g, /\bimport\s+['"](\.[^'"]+)['"]/g],
+    python: [/^\s*from\s+(\.+[\w.]*|[\w.]+)\s+import\b/gm, /^\s*import\s+([\w.]+)/gm]
+};
+
+const IMPORT_EXTENSIONS: Record<string, string[]> = {
+    javascript: ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '/index.ts', '/index.tsx', '/index.js'],
+    python: ['.py', '/__init__.py']
+};
+
+const HASH_COMMENT_LANGUAGES = ['python', 'shellscript', 'ruby', 'r', 'yaml', 'perl', 'makefile', 'dockerfile', 'powershell', 'coffeescript', 'julia', 'elixir'];
+const DASH_COMMENT_LANGUAGES = ['sql', 'lua', 'haskell'];
+const BLOCK_COMMENT_LANGUAGES: Record<string, [string, string]> = {
+    html: ['<!--', '-->'],
+    xml: ['<!--', '-->'],
+    markdown: ['<!--', '-->'],
+    css: ['/*', '*/'],
+    scss: ['/*', '*/'],
+    less: ['/*', '*/']
+};
+
+/**
+ * Collects code from other files to give completions more context than the
+ * lines around the cursor: recently edited regions, the files the current
+ * file imports, and the windows of other open editors that look most like
+ * the code being written. Snippets are added in that order until the token
+ * budget runs out.
+ */
+export class OllamaContextCollector implements vscode.Disposable {
+    private recentEdits: RecentEdit[] = [];
+    private fileCache = new Map<string, CachedFile>();
+    // Imports only change when the importing document does
+    private importCache = new Map<string, ResolvedImports>();
+    // Names at the root of each workspace folder, which absolute Python imports must start with
+    private rootEntries = new Map<string, Promise<Set<string>>>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => this.recordEdit(event)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.fileCache.delete(document.uri.toString());
+                this.importCache.delete(document.uri.toString());
+            }),
+            vscode.workspace.onDidCreateFiles(() => this.rootEntries.clear()),
+            vscode.workspace.onDidDeleteFiles(() => this.rootEntries.clear()),
+            vscode.workspace.onDidRenameFiles(() => this.rootEntries.clear())
+        );
+    }
+
+    /**
+     * Returns the collected snippets rendered as comments in the language of
+     * `document`, each labelled with its workspace-relative path.
+     */
+    async collect(document: vscode.TextDocument, position: vscode.Position, maxTokens: number): Promise<string> {
+        if (maxTokens <= 0) {
+            return '';
+        }
+
+        const cursorTokens = this.tokenize(this.getCursorWindow(document, position));
+        const snippets: OllamaContextSnippet[] = [];
+        let budget = maxTokens;
+
+        const add = (snippet: OllamaContextSnippet): boolean => {
+            if (snippets.some(existing => this.overlaps(existing, snippet))) {
+                return true;
+            }
+            const cost = estimateTokens(snippet.text);
+            if (cost > budget) {
+                return false;
+            }
+            snippets.push(snippet);
+            budget -= cost;
+            return true;
+        };
+
+        // Skip anything the prompt already contains around the cursor
+        snippets.push({
+            uri: document.uri,
+            startLine: Math.max(0, position.line - CURSOR_WINDOW_LINES),
+            text: this.getCursorWindow(document, position)
+        });
+
+        for (const snippet of this.getRecentEditSnippets(document, position)) {
+            add(snippet);
+        }
+
+        const imports = await this.resolveImports(document);
+        const importTexts = await Promise.all(imports.map(uri => this.readFile(uri)));
+        imports.forEach((uri, index) => {
+            const best = this.rankWindows(uri, importTexts[index], cursorTokens)[0];
+            if (best) {
+                add(best.snippet);
+            }
+        });
+
+        const openUris = this.getOpenEditorUris(document);
+        const openTexts = await Promise.all(openUris.map(uri => this.readFile(uri)));
+        const candidates: { snippet: OllamaContextSnippet; score: number }[] = [];
+        openUris.forEach((uri, index) => {
+            candidates.push(...this.rankWindows(uri, openTexts[index], cursorTokens).slice(0, 3));
+        });
+        candidates
+            .filter(candidate => candidate.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .forEach(candidate => add(candidate.snippet));
+
+        return snippets
+            .slice(1)
+            .map(snippet => this.formatSnippet(snippet, document.languageId))
+            .join('\n');
+    }
+
+    private recordEdit(event: vscode.TextDocumentChangeEvent) {
+        const scheme = event.document.uri.scheme;
+        if (scheme !== 'file' && scheme !== 'untitled') {
+            return;
+        }
+
+        for (const change of event.contentChanges) {
+            const line = change.range.start.line;
+            this.recentEdits = this.recentEdits.filter(edit =>
+                edit.uri.toString() !== event.document.uri.toString() || Math.abs(edit.line - line) > RECENT_EDIT_RADIUS
+            );
+            this.recentEdits.unshift({ uri: event.document.uri, line });
+        }
+
+        this.recentEdits = this.recentEdits.slice(0, MAX_RECENT_EDITS);
+        this.fileCache.delete(event.document.uri.toString());
+    }
+
+    private getRecentEditSnippets(document: vscode.TextDocument, position: vscode.Position): OllamaContextSnippet[] {
+        const snippets: OllamaContextSnippet[] = [];
+
+        for (const edit of this.recentEdits) {
+            const isCurrent = edit.uri.toString() === document.uri.toString();
+            // Edits next to the cursor are already in the prompt
+            if (isCurrent && Math.abs(edit.line - position.line) <= CURSOR_WINDOW_LINES) {
+                continue;
+            }
+
+            const editedDocument = isCurrent
+                ? document
+                : vscode.workspace.textDocuments.find(doc => doc.uri.toString() === edit.uri.toString());
+            if (!editedDocument || edit.line >= editedDocument.lineCount) {
+                continue;
+            }
+
+            const startLine = Math.max(0, edit.line - RECENT_EDIT_RADIUS);
+            const endLine = Math.min(editedDocument.lineCount - 1, edit.line + RECENT_EDIT_RADIUS);
+            snippets.push({
+                uri: edit.uri,
+                startLine,
+                text: editedDocument.getText(new vscode.Range(startLine, 0, endLine, editedDocument.lineAt(endLine).text.length))
+            });
+        }
+
+        return snippets;
+    }
+
+    private async resolveImports(document: vscode.TextDocument): Promise<vscode.Uri[]> {
+        const family = this.getImportFamily(document.languageId);
+        if (!family || document.uri.scheme !== 'file') {
+            return [];
+        }
+
+        const cached = this.importCache.get(document.uri.toString());
+        if (cached && cached.version === document.version) {
+            return cached.uris;
+        }
+
+        const text = document.getText();
+        const specifiers = new Set<string>();
+        for (const pattern of IMPORT_PATTERNS[family]) {
+            pattern.lastIndex = 0;
+            let match: RegExpExecArray | null;
+            while ((match = pattern.exec(text)) !== null) {
+                specifiers.add(match[1]);
+            }
+        }
+
+        const directory = path.dirname(document.uri.fsPath);
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+        const rootEntries = family === 'python' && workspaceFolder
+            ? await this.getRootEntries(workspaceFolder.uri)
+            : new Set<string>();
+
+        const resolved = await Promise.all(Array.from(specifiers, specifier =>
+            this.findExisting(this.getImportCandidates(family, specifier, directory, workspaceFolder?.uri.fsPath, rootEntries))
+        ));
+        const uris = resolved.filter((uri): uri is vscode.Uri => !!uri);
+
+        this.importCache.set(document.uri.toString(), { version: document.version, uris });
+        return uris;
+    }
+
+    private getImportFamily(languageId: string): string | undefined {
+        if (['javascript', 'javascriptreact', 'typescript', 'typescriptreact'].includes(languageId)) {
+            return 'javascript';
+        }
+        return languageId === 'python' ? 'python' : undefined;
+    }
+
+    /**
+     * Returns the files an import may refer to, most likely first. Absolute
+     * Python imports resolve against the workspace folder, and only when
+     * their top-level package is there; anything else is installed.
+     */
+    private getImportCandidates(
+        family: string,
+        specifier: string,
+        directory: string,
+        workspaceRoot: string | undefined,
+        rootEntries: Set<string>
+    ): string[] {
+        if (family === 'javascript') {
+            const basePath = path.resolve(directory, specifier);
+            return IMPORT_EXTENSIONS.javascript.map(extension => basePath + extension);
+        }
+
+        // Python: leading dots climb packages, the rest is a dotted module path
+        const dots = specifier.match(/^\.*/)![0].length;
+        const segments = specifier.substring(dots).split('.').filter(Boolean);
+
+        let base: string;
+        if (dots > 0) {
+            base = path.resolve(directory, ...Array(dots - 1).fill('..'));
+        } else if (workspaceRoot && (rootEntries.has(segments[0]) || rootEntries.has(`${segments[0]}.py`))) {
+            base = workspaceRoot;
+        } else {
+            return [];
+        }
+
+        // `from . import name` can only mean the package itself
+        if (segments.length === 0) {
+            return [path.join(base, '__init__.py')];
+        }
+        const modulePath = path.join(base, ...segments);
+        return IMPORT_EXTENSIONS.python.map(extension => modulePath + extension);
+    }
+
+    private getRootEntries(root: vscode.Uri): Promise<Set<string>> {
+        let entries = this.rootEntries.get(root.toString());
+        if (!entries) {
+            entries = Promise.resolve(vscode.workspace.fs.readDirectory(root)).then(
+                children => new Set(children.map(([name]) => name)),
+                () => new Set<string>()
+            );
+            this.rootEntries.set(root.toString(), entries);
+        }
+        return entries;
+    }
+
+    /**
+     * Returns the first of `paths` that is a file. All of them are checked at
+     * once, so earlier candidates win without waiting on each other.
+     */
+    private async findExisting(paths: string[]): Promise<vscode.Uri | undefined> {
+        const uris = paths.map(filePath => vscode.Uri.file(filePath));
+        const isFile = await Promise.all(uris.map(async uri => {
+            try {
+                return (await vscode.workspace.fs.stat(uri)).type === vscode.FileType.File;
+            } catch (error) {
+                return false;
+            }
+        }));
+        return uris.find((_uri, index) => isFile[index]);
+    }
+
+    private getOpenEditorUris(document: vscode.TextDocument): vscode.Uri[] {
+        const uris = new Map<string, vscode.Uri>();
+
+        for (const group of vscode.window.tabGroups.all) {
+            for (const tab of group.tabs) {
+                if (tab.input instanceof vscode.TabInputText && tab.input.uri.toString() !== document.uri.toString()) {
+                    uris.set(tab.input.uri.toString(), tab.input.uri);
+                }
+            }
+        }
+
+        return Array.from(uris.values());
+    }
+
+    private async readFile(uri: vscode.Uri): Promise<string> {
+        const open = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        if (open) {
+            return open.getText().length > MAX_FILE_SIZE ? '' : open.getText();
+        }
+
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.size > MAX_FILE_SIZE) {
+                return '';
+            }
+
+            const cached = this.fileCache.get(uri.toString());
+            if (cached && cached.mtime === stat.mtime) {
+                return cached.text;
+            }
+
+            const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            this.fileCache.set(uri.toString(), { mtime: stat.mtime, text });
+            return text;
+        } catch (error) {
+            return '';
+        }
+    }
+
+    /**
+     * Splits a file into overlapping windows and scores each by the Jaccard
+     * similarity of its identifiers to those around the cursor.
+     */
+    private rankWindows(uri: vscode.Uri, text: string, cursorTokens: Set<string>): { snippet: OllamaContextSnippet; score: number }[] {
+        if (!text.trim()) {
+            return [];
+        }
+
+        const lines = text.split('\n');
+        const windows: { snippet: OllamaContextSnippet; score: number }[] = [];
+
+        for (let start = 0; start < lines.length; start += WINDOW_STEP) {
+            const windowText = lines.slice(start, start + WINDOW_LINES).join('\n');
+            if (!windowText.trim()) {
+                continue;
+            }
+
+            windows.push({
+                snippet: { uri, startLine: start, text: windowText },
+                score: this.similarity(cursorTokens, this.tokenize(windowText))
+            });
+
+            if (start + WINDOW_LINES >= lines.length) {
+                break;
+            }
+        }
+
+        return windows.sort((a, b) => b.score - a.score);
+    }
+
+    private similarity(a: Set<string>, b: Set<string>): number {
+        if (a.size === 0 || b.size === 0) {
+            return 0;
+        }
+
+        let shared = 0;
+        for (const token of a) {
+            if (b.has(token)) {
+                shared++;
+            }
+        }
+        return shared / (a.size + b.size - shared);
+    }
+
+    private tokenize(text: string): Set<string> {
+        return new Set(text.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? []);
+    }
+
+    private getCursorWindow(document: vscode.TextDocument, position: vscode.Position): string {
+        const startLine = Math.max(0, position.line - CURSOR_WINDOW_LINES);
+        return document.getText(new vscode.Range(startLine, 0, position.line, position.character));
+    }
+
+    private overlaps(a: OllamaContextSnippet, b: OllamaContextSnippet): boolean {
+        if (a.uri.toString() !== b.uri.toString()) {
+            return false;
+        }
+        const aEnd = a.startLine + a.text.split('\n').length;
+        const bEnd = b.startLine + b.text.split('\n').length;
+        return a.startLine < bEnd && b.startLine < aEnd;
+    }
+
+    private formatSnippet(snippet: OllamaContextSnippet, languageId: string): string {
+        const label = `Path: ${vscode.workspace.asRelativePath(snippet.uri)}`;
+        const block = BLOCK_COMMENT_LANGUAGES[languageId];
+
+        if (block) {
+            const body = snippet.text.split(block[1]).join('');
+            return `${block[0]} ${label}\n${body}\n${block[1]}`;
+        }
+
+        const prefix = HASH_COMMENT_LANGUAGES.includes(languageId)
+            ? '#'
+            : DASH_COMMENT_LANGUAGES.includes(languageId) ? '--' : '//';
+
+        return [label, ...snippet.text.split('\n')]
+            .map(line => `${prefix} ${line}`.trimEnd())
+            .join('\n');
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { getEndpoints } from './endpoints';
+
+/**
+ * A header whose value is a secret, such as `Authorization: Bearer ...`.
+ */
+interface OllamaCredential {
+    header: string;
+    value: string;
+}
+
+const SECRET_PREFIX = 'ollama.credentials.';
+
+/**
+ * Keeps per-endpoint authentication headers in VS Code's SecretStorage so
+ * tokens never end up in settings.json. Lookups are cached, since every
+ * request needs them.
+ */
+export class OllamaCredentialStore implements vscode.Disposable {
+    private cache = new Map<string, OllamaCredential | undefined>();
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly secrets: vscode.SecretStorage) {
+        this.disposables.push(
+            secrets.onDidChange(event => {
+                if (event.key.startsWith(SECRET_PREFIX)) {
+                    this.cache.delete(event.key.substring(SECRET_PREFIX.length));
+                    this._onDidChange.fire();
+                }
+            })
+        );
+    }
+
+    register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            this,
+            vscode.commands.registerCommand('ollama.setApiKey', () => this.setApiKey()),
+            vscode.commands.registerCommand('ollama.clearApiKey', () => this.clearApiKey())
+        );
+    }
+
+    /**
+     * Returns the secret headers stored for an endpoint.
+     */
+    async getHeaders(endpointName: string): Promise<Record<string, string>> {
+        if (!this.cache.has(endpointName)) {
+            this.cache.set(endpointName, await this.read(endpointName));
+        }
+
+        const credential = this.cache.get(endpointName);
+        return credential ? { [credential.header]: credential.value } : {};
+    }
+
+    private async read(endpointName: string): Promise<OllamaCredential | undefined> {
+        const stored = await this.secrets.get(SECRET_PREFIX + endpointName);
+        if (!stored) {
+            return undefined;
+        }
+
+        try {
+            const credential = JSON.parse(stored) as OllamaCredential;
+            return credential.header && credential.value ? credential : undefined;
+        } catch (error) {
+            console.error(`Ignoring unreadable credentials for Ollama endpoint ${endpointName}`);
+            return undefined;
+        }
+    }
+
+    private async setApiKey(): Promise<void> {
+        const endpointName = await this.pickEndpoint(getEndpoints().map(endpoint => endpoint.name), 'Select the endpoint the key is for');
+        if (!endpointName) {
+            return;
+        }
+
+        const kind = await vscode.window.showQuickPick([
+            { label: 'Bearer token', description: 'Authorization: Bearer <token>', header: 'Authorization' },
+            { label: 'Custom header', description: 'e.g. X-API-Key: <key>', header: '' }
+        ], { placeHolder: 'How does the server expect the key?' });
+        if (!kind) {
+            return;
+        }
+
+        const header = kind.header || (await vscode.window.showInputBox({
+            prompt: 'Header name',
+            placeHolder: 'X-API-Key',
+            validateInput: value => /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(value.trim()) ? undefined : 'Enter a valid header name'
+        }))?.trim();
+        if (!header) {
+            return;
+        }
+
+        const secret = await vscode.window.showInputBox({
+            prompt: `Key for ${endpointName}`,
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? undefined : 'Enter a key'
+        });
+        if (!secret) {
+            return;
+        }
+
+        try {
+            const value = kind.header ? `Bearer ${secret.trim()}` : secret.trim();
+            await this.secrets.store(SECRET_PREFIX + endpointName, JSON.stringify({ header, value }));
+            vscode.window.showInformationMessage(`Stored the API key for ${endpointName}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to store API key: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    private async clearApiKey(): Promise<void> {
+        const names: string[] = [];
+        for (const endpoint of getEndpoints()) {
+            if (await this.read(endpoint.name)) {
+                names.push(endpoint.name);
+            }
+        }
+
+        if (names.length === 0) {
+            vscode.window.showInformationMessage('No Ollama API keys are stored');
+            return;
+        }
+
+        const endpointName = await this.pickEndpoint(names, 'Select the endpoint whose key to remove');
+        if (!endpointName) {
+            return;
+        }
+
+        try {
+            await this.secrets.delete(SECRET_PREFIX + endpointName);
+            vscode.window.showInformationMessage(`Removed the API key for ${endpointName}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to remove API key: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    private async pickEndpoint(names: string[], placeHolder: string): Promise<string | undefined> {
+        if (names.length === 1) {
+            return names[0];
+        }
+        return vscode.window.showQuickPick(names, { placeHolder });
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,293 @@
+import * as vscode from 'vscode';
+import { OllamaApi, OllamaRequestCancelledError } from './ollamaApi';
+import { extractCode, getCommonIndentation, reindent } from './codeExtraction';
+
+export interface OllamaDocCommentStyle {
+    // Name of the style as used in the prompt
+    name: string;
+    // Documentation goes above the declaration, or as the first statement of the body
+    placement: 'above' | 'inside';
+    format: 'block' | 'line' | 'docstring';
+    // Comment marker for 'line' comments
+    linePrefix?: string;
+}
+
+const DOC_COMMENT_STYLES: Record<string, OllamaDocCommentStyle> = {
+    python: { name: 'Python docstring (Google style)', placement: 'inside', format: 'docstring' },
+    javascript: { name: 'JSDoc comment', placement: 'above', format: 'block' },
+    javascriptreact: { name: 'JSDoc comment', placement: 'above', format: 'block' },
+    typescript: { name: 'JSDoc comment', placement: 'above', format: 'block' },
+    typescriptreact: { name: 'JSDoc comment', placement: 'above', format: 'block' },
+    java: { name: 'Javadoc comment', placement: 'above', format: 'block' },
+    csharp: { name: 'XML documentation comment', placement: 'above', format: 'line', linePrefix: '///' },
+    go: { name: 'Go doc comment (// lines starting with the declared name)', placement: 'above', format: 'line', linePrefix: '//' },
+    rust: { name: 'Rust doc comment (/// lines with Markdown sections such as # Arguments and # Returns)', placement: 'above', format: 'line', linePrefix: '///' },
+    c: { name: 'Doxygen comment (/** */ with @brief, @param and @return)', placement: 'above', format: 'block' },
+    cpp: { name: 'Doxygen comment (/** */ with @brief, @param and @return)', placement: 'above', format: 'block' }
+};
+
+export function getDocCommentStyle(languageId: string): OllamaDocCommentStyle | undefined {
+    return DOC_COMMENT_STYLES[languageId];
+}
+
+/**
+ * Generates a documentation comment for the selected declaration and inserts
+ * it where the language expects it, as a single undoable edit.
+ */
+export class OllamaDocstringGenerator {
+    private ollamaApi: OllamaApi;
+
+    constructor(ollamaApi: OllamaApi) {
+        this.ollamaApi = ollamaApi;
+    }
+
+    async insertDocumentation(editor: vscode.TextEditor, style: OllamaDocCommentStyle): Promise<void> {
+        const document = editor.document;
+        const selection = editor.selection;
+        const code = document.getText(selection);
+        const language = document.languageId;
+
+        const declarationLine = this.findDeclarationLine(document, selection, style);
+        if (declarationLine === undefined) {
+            vscode.window.showWarningMessage('Could not find a declaration to document in the selection');
+            return;
+        }
+
+        let insertion: { position: vscode.Position; indentation: string } | undefined;
+        if (style.placement === 'above') {
+            insertion = {
+                position: new vscode.Position(declarationLine, 0),
+                indentation: this.getIndentation(document.lineAt(declarationLine).text)
+            };
+        } else {
+            insertion = this.findBodyStart(document, declarationLine, editor.options);
+            if (!insertion) {
+                vscode.window.showWarningMessage('Docstrings can only be added to definitions with an indented body');
+                return;
+            }
+        }
+
+        // The insertion point is only valid for the text it was found in
+        const documentVersion = document.version;
+
+        const response = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Ollama is writing documentation...',
+            cancellable: true
+        }, async (_progress, token) => {
+            const request = new AbortController();
+            const cancellation = token.onCancellationRequested(() => request.abort());
+
+            const { options, keep_alive } = this.ollamaApi.getGenerationSettings('chat');
+
+            let text = '';
+            try {
+                await this.ollamaApi.streamChatCompletion(
+                    {
+                        model: this.ollamaApi.getModelForRole('chat'),
+                        messages: [
+                            {
+                                role: 'system',
+                                content: `You write ${style.name}s. Respond with only the documentation comment, without the code it documents and without explanations. Describe the parameters, the return value and any important notes.`
+                            },
+                            {
+                                role: 'user',
+                                content: `Write a ${style.name} for this ${language} code:\n\n\`\`\`${language}\n${code}\n\`\`\``
+                            }
+                        ],
+                        keep_alive,
+                        options: {
+                            temperature: 0.2,
+                            ...options
+                        }
+                    },
+                    (chunk) => {
+                        text += chunk;
+                    },
+                    { signal: request.signal, role: 'chat' }
+                );
+            } catch (error) {
+                if (error instanceof OllamaRequestCancelledError) {
+                    return undefined;
+                }
+                throw error;
+            } finally {
+                cancellation.dispose();
+            }
+            return text;
+        });
+
+        if (response === undefined) {
+            return;
+        }
+
+        const comment = this.normalizeComment(extractCode(response, language), style);
+        if (!comment) {
+            vscode.window.showWarningMessage('Ollama did not return a documentation comment');
+            return;
+        }
+
+        if (document.version !== documentVersion) {
+            vscode.window.showWarningMessage('The file changed while the documentation was being written. Run Generate Documentation again.');
+            return;
+        }
+
+        const text = reindent(comment, insertion.indentation) + '\n';
+        const position = insertion.position;
+        const applied = await editor.edit(editBuilder => {
+            editBuilder.insert(position, text);
+        });
+        if (!applied) {
+            vscode.window.showErrorMessage('Failed to insert the documentation');
+        }
+    }
+
+    /**
+     * Finds the line holding the declaration. Comments above it belong above
+     * decorators and annotations, but a Python docstring follows the `def`.
+     */
+    private findDeclarationLine(
+        document: vscode.TextDocument,
+        selection: vscode.Selection,
+        style: OllamaDocCommentStyle
+    ): number | undefined {
+        for (let line = selection.start.line; line <= selection.end.line; line++) {
+            const text = document.lineAt(line).text.trim();
+            if (!text) {
+                continue;
+            }
+            if (style.placement === 'inside' && !/^(async\s+def|def|class)\b/.test(text)) {
+                continue;
+            }
+            return line;
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns where the first statement of a Python body goes: the line after
+     * the signature, which may span several lines.
+     */
+    private findBodyStart(
+        document: vscode.TextDocument,
+        declarationLine: number,
+        options: vscode.TextEditorOptions
+    ): { position: vscode.Position; indentation: string } | undefined {
+        let depth = 0;
+
+        for (let line = declarationLine; line < document.lineCount; line++) {
+            const text = document.lineAt(line).text.replace(/#.*$/, '');
+            let colon = -1;
+
+            for (let i = 0; i < text.length; i++) {
+                const char = text[i];
+                if ('([{'.includes(char)) {
+                    depth++;
+                } else if (')]}'.includes(char)) {
+                    depth--;
+                } else if (char === ':' && depth === 0) {
+                    colon = i;
+                }
+            }
+
+            if (depth > 0 || colon === -1) {
+                continue;
+            }
+            if (text.substring(colon + 1).trim()) {
+                // One-line definition such as `def f(x): return x`
+                return undefined;
+            }
+
+            const declarationIndentation = this.getIndentation(document.lineAt(declarationLine).text);
+            const bodyIndentation = this.getBodyIndentation(document, line + 1, declarationIndentation)
+                ?? declarationIndentation + this.getIndentUnit(options);
+
+            return {
+                position: new vscode.Position(line + 1, 0),
+                indentation: bodyIndentation
+            };
+        }
+
+        return undefined;
+    }
+
+    private getBodyIndentation(document: vscode.TextDocument, fromLine: number, declarationIndentation: string): string | undefined {
+        for (let line = fromLine; line < document.lineCount; line++) {
+            const text = document.lineAt(line).text;
+            if (!text.trim()) {
+                continue;
+            }
+            const indentation = this.getIndentation(text);
+            return indentation.length > declarationIndentation.length ? indentation : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Strips whatever the model added around the comment itself and makes
+     * sure the result is a well-formed comment in the expected style.
+     */
+    private normalizeComment(text: string, style: OllamaDocCommentStyle): string {
+        const trimmed = text.trim();
+        if (!trimmed) {
+            return '';
+        }
+
+        switch (style.format) {
+            case 'block': {
+                const block = trimmed.match(/\/\*\*?[\s\S]*?\*\//);
+                if (block) {
+                    return this.alignBlockComment(block[0]);
+                }
+                const body = trimmed.split('\n').map(line => ` * ${line.trim()}`.trimEnd());
+                return ['/**', ...body, ' */'].join('\n');
+            }
+            case 'line': {
+                const prefix = style.linePrefix!;
+                const lines = trimmed.split('\n');
+                const commentLines = lines.filter(line => line.trim().startsWith('//'));
+
+                if (commentLines.length > 0) {
+                    // Keep the first run of comment lines, dropping any prose before it and code after it
+                    const start = lines.findIndex(line => line.trim().startsWith('//'));
+                    const end = lines.findIndex((line, index) => index > start && line.trim() && !line.trim().startsWith('//'));
+                    return lines
+                        .slice(start, end === -1 ? lines.length : end)
+                        .filter(line => line.trim())
+                        .map(line => `${prefix} ${line.trim().replace(/^\/\/+\s?/, '')}`.trimEnd())
+                        .join('\n');
+                }
+                return lines.map(line => `${prefix} ${line.trim()}`.trimEnd()).join('\n');
+            }
+            case 'docstring': {
+                const docstring = trimmed.match(/("""|''')[\s\S]*?\1/);
+                if (docstring) {
+                    // Like inspect.cleandoc: later lines are dedented relative to each other
+                    const [first, ...rest] = docstring[0].split('\n');
+                    const indentation = getCommonIndentation(rest);
+                    return [first.trim(), ...rest.map(line => line.substring(indentation.length).trimEnd())].join('\n');
+                }
+                return `"""${trimmed.replace(/"""/g, '\\"\\"\\"')}\n"""`;
+            }
+        }
+    }
+
+    private alignBlockComment(comment: string): string {
+        const lines = comment.split('\n').map(line => line.trim());
+        return lines
+            .map((line, index) => index === 0 ? line : ` ${line.startsWith('*') ? line : `* ${line}`.trimEnd()}`)
+            .join('\n');
+    }
+
+    private getIndentation(text: string): string {
+        return text.match(/^[ \t]*/)![0];
+    }
+
+    private getIndentUnit(options: vscode.TextEditorOptions): string {
+        if (options.insertSpaces === false) {
+            return '\t';
+        }
+        const tabSize = typeof options.tabSize === 'number' ? options.tabSize : 4;
+        return ' '.repeat(tabSize);
+    }
+}
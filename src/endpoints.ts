@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import type { OllamaModelRole } from './ollamaApi';
+
+/**
+ * A named Ollama server from `ollama.endpoints`.
+ */
+export interface OllamaEndpoint {
+    name: string;
+    url: string;
+    headers?: Record<string, string>;
+    timeout?: number;
+}
+
+// Name of the endpoint built from ollama.apiUrl when no profiles are configured
+export const DEFAULT_ENDPOINT_NAME = 'default';
+
+const ENDPOINT_SETTINGS = [
+    'ollama.apiUrl',
+    'ollama.timeout',
+    'ollama.headers',
+    'ollama.tls',
+    'ollama.endpoints',
+    'ollama.activeEndpoint',
+    'ollama.chat.endpoints',
+    'ollama.completions.endpoints',
+    'ollama.embeddings.endpoints'
+];
+
+export function affectsEndpoints(event: vscode.ConfigurationChangeEvent): boolean {
+    return ENDPOINT_SETTINGS.some(setting => event.affectsConfiguration(setting));
+}
+
+/**
+ * Returns the configured endpoint profiles with their timeouts filled in
+ * and `ollama.headers` merged under their own headers. Without profiles,
+ * `ollama.apiUrl` and `ollama.timeout` make up a single endpoint so
+ * existing settings keep working.
+ */
+export function getEndpoints(): OllamaEndpoint[] {
+    const config = vscode.workspace.getConfiguration('ollama');
+    const timeout = config.get<number>('timeout', 30000);
+    const headers = config.get<Record<string, string>>('headers', {});
+    const configured = config.get<OllamaEndpoint[]>('endpoints', [])
+        .filter(endpoint => endpoint && endpoint.name && endpoint.url);
+
+    if (configured.length === 0) {
+        return [{
+            name: DEFAULT_ENDPOINT_NAME,
+            url: normalizeUrl(config.get<string>('apiUrl', 'http://localhost:11434')),
+            headers,
+            timeout
+        }];
+    }
+
+    return configured.map(endpoint => ({
+        ...endpoint,
+        url: normalizeUrl(endpoint.url),
+        headers: { ...headers, ...endpoint.headers },
+        timeout: endpoint.timeout ?? timeout
+    }));
+}
+
+/**
+ * The endpoint selected in `ollama.activeEndpoint`, or the first one.
+ */
+export function getActiveEndpoint(): OllamaEndpoint {
+    const config = vscode.workspace.getConfiguration('ollama');
+    const endpoints = getEndpoints();
+    const activeName = config.get<string>('activeEndpoint', '');
+
+    return endpoints.find(endpoint => endpoint.name === activeName) ?? endpoints[0];
+}
+
+/**
+ * Returns the endpoints a request is tried against, in order. A role with
+ * `ollama.<role>.endpoints` uses those profiles; otherwise the active
+ * endpoint comes first, followed by the rest in configuration order.
+ */
+export function getEndpointChain(role?: OllamaModelRole): OllamaEndpoint[] {
+    const config = vscode.workspace.getConfiguration('ollama');
+    const endpoints = getEndpoints();
+
+    const roleNames = role ? config.get<string[]>(`${role}.endpoints`, []) : [];
+    const forRole = roleNames
+        .map(name => endpoints.find(endpoint => endpoint.name === name))
+        .filter((endpoint): endpoint is OllamaEndpoint => !!endpoint);
+    if (forRole.length > 0) {
+        return forRole;
+    }
+
+    const active = getActiveEndpoint();
+    return [active, ...endpoints.filter(endpoint => endpoint.name !== active.name)];
+}
+
+/**
+ * The URLs requests are tried against, for messages about connection
+ * problems.
+ */
+export function describeEndpointChain(role?: OllamaModelRole): string {
+    return getEndpointChain(role).map(endpoint => endpoint.url).join(' or ');
+}
+
+function normalizeUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '');
+}
@@ -1,9 +1,19 @@
 import * as vscode from 'vscode';
 import { OllamaApi } from './ollamaApi';
 import { OllamaCompletionProvider } from './completionProvider';
+import { OllamaContextCollector } from './contextCollector';
+import { OllamaConnectionMonitor } from './connectionMonitor';
+import { OllamaCredentialStore } from './credentials';
+import { OllamaCompletionStatusBar } from './completionStatusBar';
 import { OllamaChatProvider } from './chatProvider';
+import { OllamaChatSessionStore } from './chatSessions';
+import { OllamaWorkspaceIndex } from './workspaceIndex';
+import { OllamaPersonaStore } from './personas';
 import { OllamaModelManager, OllamaConfigurationProvider } from './modelManager';
+import { OllamaModelsTreeProvider } from './modelsView';
 import { OllamaCommandManager, registerEditorCommands } from './commands';
+import { OllamaImprovePreview } from './improvePreview';
+import { OllamaDocstringGenerator } from './docstringGenerator';
 
 export async function activate(context: vscode.ExtensionContext) {
     console.log('Activating Ollama extension...');
@@ -13,24 +23,33 @@ export async function activate(context: vscode.ExtensionContext) {
         await OllamaConfigurationProvider.initializeConfiguration();
         
         // Create core services
-        const ollamaApi = new OllamaApi();
-        const completionProvider = new OllamaCompletionProvider(ollamaApi);
-        const chatProvider = new OllamaChatProvider(context.extensionUri, ollamaApi);
-        const modelManager = new OllamaModelManager(ollamaApi);
-        
-        // Register completion provider for all supported languages
-        const supportedLanguages = [
-            'javascript', 'typescript', 'python', 'java', 'csharp', 'cpp', 'c',
-            'go', 'rust', 'php', 'ruby', 'swift', 'kotlin', 'scala', 'r',
-            'html', 'css', 'scss', 'less', 'json', 'yaml', 'xml', 'markdown',
-            'dockerfile', 'makefile', 'shellscript', 'powershell', 'sql'
-        ];
-        
-        const completionDisposable = vscode.languages.registerInlineCompletionItemProvider(
-            supportedLanguages,
-            completionProvider
+        const credentials = new OllamaCredentialStore(context.secrets);
+        credentials.register(context);
+        const ollamaApi = new OllamaApi(credentials);
+        const connectionMonitor = new OllamaConnectionMonitor(ollamaApi);
+        context.subscriptions.push(
+            connectionMonitor,
+            // A new or removed key may be what made the server reachable
+            credentials.onDidChange(() => connectionMonitor.checkNow())
         );
-        context.subscriptions.push(completionDisposable);
+        const contextCollector = new OllamaContextCollector();
+        context.subscriptions.push(contextCollector);
+        const completionProvider = new OllamaCompletionProvider(ollamaApi, contextCollector, connectionMonitor);
+        const workspaceIndex = new OllamaWorkspaceIndex(ollamaApi, context.storageUri);
+        workspaceIndex.register(context);
+        const personaStore = new OllamaPersonaStore();
+        context.subscriptions.push(personaStore);
+        const sessionStore = new OllamaChatSessionStore(context.workspaceState);
+        const chatProvider = new OllamaChatProvider(context.extensionUri, ollamaApi, workspaceIndex, personaStore, sessionStore);
+        const modelManager = new OllamaModelManager(ollamaApi, connectionMonitor);
+        const improvePreview = new OllamaImprovePreview(ollamaApi);
+        improvePreview.register(context);
+        const docstringGenerator = new OllamaDocstringGenerator(ollamaApi);
+        
+        // Register completion provider for the configured languages
+        completionProvider.register(context);
+        const completionStatusBar = new OllamaCompletionStatusBar(completionProvider);
+        completionStatusBar.register(context);
         
         // Register chat provider
         const chatDisposable = vscode.window.registerWebviewViewProvider(
@@ -39,12 +58,18 @@ export async function activate(context: vscode.ExtensionContext) {
         );
         context.subscriptions.push(chatDisposable);
         
+        // Register models view
+        const modelsTreeProvider = new OllamaModelsTreeProvider(ollamaApi, modelManager);
+        modelsTreeProvider.register(context);
+        
         // Create command manager and register commands
         const commandManager = new OllamaCommandManager(
             ollamaApi,
             modelManager,
             chatProvider,
-            completionProvider
+            completionProvider,
+            improvePreview,
+            docstringGenerator
         );
         commandManager.registerCommands(context);
         
@@ -58,9 +83,8 @@ export async function activate(context: vscode.ExtensionContext) {
         // Set context for conditional UI elements
         vscode.commands.executeCommand('setContext', 'ollamaEnabled', true);
         
-        // Check initial connection status
-        setTimeout(async () => {
-            const isHealthy = await modelManager.checkOllamaConnection();
+        // Start watching the connection; it keeps retrying in the background
+        connectionMonitor.start().then(isHealthy => {
             if (!isHealthy) {
                 vscode.window.showWarningMessage(
                     'Ollama is not running. Please start Ollama to use AI features.',
@@ -71,7 +95,7 @@ export async function activate(context: vscode.ExtensionContext) {
                     }
                 });
             }
-        }, 2000);
+        });
         
         console.log('Ollama extension activated successfully!');
         
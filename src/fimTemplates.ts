@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { OllamaModel } from './ollamaApi';
+
+/**
+ * A fill-in-the-middle prompt format. `template` contains the `{prefix}` and
+ * `{suffix}` placeholders and is sent with `raw: true`, so it must include
+ * every special token the model expects.
+ */
+export interface OllamaFimTemplate {
+    template: string;
+    stop?: string[];
+}
+
+const BUILTIN_FIM_TEMPLATES: Record<string, OllamaFimTemplate> = {
+    codellama: {
+        template: '<PRE> {prefix} <SUF>{suffix} <MID>',
+        stop: ['<EOT>', '<PRE>', '<SUF>', '<MID>']
+    },
+    'deepseek-coder': {
+        template: '<｜fim▁begin｜>{prefix}<｜fim▁hole｜>{suffix}<｜fim▁end｜>',
+        stop: ['<｜fim▁begin｜>', '<｜fim▁hole｜>', '<｜fim▁end｜>', '<|EOT|>', '<｜end▁of▁sentence｜>']
+    },
+    'qwen2.5-coder': {
+        template: '<|fim_prefix|>{prefix}<|fim_suffix|>{suffix}<|fim_middle|>',
+        stop: ['<|endoftext|>', '<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>', '<|fim_pad|>', '<|repo_name|>', '<|file_sep|>']
+    },
+    starcoder2: {
+        template: '<fim_prefix>{prefix}<fim_suffix>{suffix}<fim_middle>',
+        stop: ['<|endoftext|>', '<fim_prefix>', '<fim_suffix>', '<fim_middle>', '<file_sep>']
+    },
+    starcoder: {
+        template: '<fim_prefix>{prefix}<fim_suffix>{suffix}<fim_middle>',
+        stop: ['<|endoftext|>', '<fim_prefix>', '<fim_suffix>', '<fim_middle>']
+    },
+    codegemma: {
+        template: '<|fim_prefix|>{prefix}<|fim_suffix|>{suffix}<|fim_middle|>',
+        stop: ['<|file_separator|>', '<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>']
+    },
+    codestral: {
+        template: '[SUFFIX]{suffix}[PREFIX]{prefix}',
+        stop: ['[PREFIX]', '[SUFFIX]', '</s>']
+    }
+};
+
+/**
+ * Picks the FIM template for a model. User templates from
+ * `ollama.completions.fimTemplates` win over the built-in ones; within each
+ * set, a key matching the model name wins over one matching the family
+ * reported by Ollama (`details.family`). Longer keys are tried first so
+ * `starcoder2` is not mistaken for `starcoder`.
+ */
+export function resolveFimTemplate(modelName: string, model?: OllamaModel): OllamaFimTemplate | undefined {
+    const config = vscode.workspace.getConfiguration('ollama');
+    const userTemplates = config.get<Record<string, OllamaFimTemplate>>('completions.fimTemplates', {});
+
+    const baseName = modelName.toLowerCase().split(':')[0].split('/').pop() ?? '';
+    const family = model?.details?.family?.toLowerCase();
+
+    for (const templates of [userTemplates, BUILTIN_FIM_TEMPLATES]) {
+        const keys = Object.keys(templates).sort((a, b) => b.length - a.length);
+
+        const byName = keys.find(key => baseName.startsWith(key.toLowerCase()));
+        if (byName && templates[byName]?.template) {
+            return templates[byName];
+        }
+
+        const byFamily = family ? keys.find(key => key.toLowerCase() === family) : undefined;
+        if (byFamily && templates[byFamily]?.template) {
+            return templates[byFamily];
+        }
+    }
+
+    return undefined;
+}
+
+export function renderFimPrompt(template: OllamaFimTemplate, prefix: string, suffix: string): string {
+    // Replace both placeholders in one pass so code containing "{suffix}" is left alone
+    return template.template.replace(/\{(prefix|suffix)\}/g, (_match, name: string) => name === 'prefix' ? prefix : suffix);
+}
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { OllamaApi, OllamaRequestCancelledError } from './ollamaApi';
+import { extractCode, reindent } from './codeExtraction';
+
+interface PendingImprovement {
+    id: string;
+    documentUri: vscode.Uri;
+    documentVersion: number;
+    range: vscode.Range;
+    improvedCode: string;
+    proposedText: string;
+}
+
+/**
+ * Asks the model for a rewritten version of a selection and shows it as a
+ * side-by-side diff against the original document. The proposal lives in a
+ * virtual document until it is accepted, so nothing touches the file on disk
+ * or the undo stack before the user decides.
+ */
+export class OllamaImprovePreview implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'ollama-improve';
+
+    private ollamaApi: OllamaApi;
+    private pending = new Map<string, PendingImprovement>();
+    private lastId?: string;
+
+    constructor(ollamaApi: OllamaApi) {
+        this.ollamaApi = ollamaApi;
+    }
+
+    register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(OllamaImprovePreview.scheme, this),
+            vscode.commands.registerCommand('ollama.acceptImprovement', (uri?: vscode.Uri) => this.accept(uri)),
+            vscode.commands.registerCommand('ollama.rejectImprovement', (uri?: vscode.Uri) => this.reject(uri))
+        );
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.pending.get(uri.query)?.proposedText ?? '';
+    }
+
+    async improveSelection(editor: vscode.TextEditor): Promise<void> {
+        const document = editor.document;
+        const range = editor.selection;
+        const original = document.getText(range);
+        const language = document.languageId;
+
+        const response = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Ollama is improving the selected code...',
+            cancellable: true
+        }, async (_progress, token) => {
+            const request = new AbortController();
+            const cancellation = token.onCancellationRequested(() => request.abort());
+
+            // Structured output formats don't apply; the reply must be code
+            const { options, keep_alive } = this.ollamaApi.getGenerationSettings('chat');
+
+            let text = '';
+            try {
+                await this.ollamaApi.streamChatCompletion(
+                    {
+                        model: this.ollamaApi.getModelForRole('chat'),
+                        messages: [
+                            {
+                                role: 'system',
+                                content: 'You rewrite code to improve performance, readability and best practices, and fix potential bugs, without changing its intended behavior. Respond with only the complete rewritten code in a single fenced code block. Do not add explanations.'
+                            },
+                            {
+                                role: 'user',
+                                content: `Improve this ${language} code:\n\n\`\`\`${language}\n${original}\n\`\`\``
+                            }
+                        ],
+                        keep_alive,
+                        options: {
+                            temperature: 0.2,
+                            ...options
+                        }
+                    },
+                    (chunk) => {
+                        text += chunk;
+                    },
+                    { signal: request.signal, role: 'chat' }
+                );
+            } catch (error) {
+                if (error instanceof OllamaRequestCancelledError) {
+                    return undefined;
+                }
+                throw error;
+            } finally {
+                cancellation.dispose();
+            }
+            return text;
+        });
+
+        if (response === undefined) {
+            return;
+        }
+
+        const extracted = this.matchSelectionIndentation(extractCode(response, language), document, range);
+        if (!extracted.trim()) {
+            vscode.window.showWarningMessage('Ollama did not return any code');
+            return;
+        }
+        // Whole-line selections end with a line break that the extracted code has lost
+        const improvedCode = extracted + original.match(/(\r?\n)*$/)![0];
+        if (improvedCode === original) {
+            vscode.window.showInformationMessage('Ollama suggested no changes');
+            return;
+        }
+
+        const fullText = document.getText();
+        const proposedText = fullText.substring(0, document.offsetAt(range.start))
+            + improvedCode
+            + fullText.substring(document.offsetAt(range.end));
+
+        const id = `${Date.now().toString(36)}`;
+        this.pending.set(id, {
+            id,
+            documentUri: document.uri,
+            documentVersion: document.version,
+            range,
+            improvedCode,
+            proposedText
+        });
+        this.lastId = id;
+
+        const fileName = path.basename(document.uri.path);
+        const proposedUri = vscode.Uri.from({
+            scheme: OllamaImprovePreview.scheme,
+            path: document.uri.path,
+            query: id
+        });
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            document.uri,
+            proposedUri,
+            `${fileName} ↔ Improved by Ollama`
+        );
+
+        const choice = await vscode.window.showInformationMessage(
+            'Apply the changes suggested by Ollama?',
+            'Accept',
+            'Reject'
+        );
+        if (choice === 'Accept') {
+            await this.accept(proposedUri);
+        } else if (choice === 'Reject') {
+            await this.reject(proposedUri);
+        }
+    }
+
+    private async accept(uri?: vscode.Uri): Promise<void> {
+        const improvement = this.takePending(uri);
+        if (!improvement) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(improvement.documentUri);
+        if (document.version !== improvement.documentVersion) {
+            vscode.window.showWarningMessage('The file changed since the suggestion was made. Run Improve Code again.');
+            await this.closePreview(improvement);
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, improvement.range, improvement.improvedCode);
+        const applied = await vscode.workspace.applyEdit(edit);
+
+        await this.closePreview(improvement);
+        if (!applied) {
+            vscode.window.showErrorMessage('Failed to apply the suggested changes');
+            return;
+        }
+        await vscode.window.showTextDocument(document);
+    }
+
+    private async reject(uri?: vscode.Uri): Promise<void> {
+        const improvement = this.takePending(uri);
+        if (improvement) {
+            await this.closePreview(improvement);
+        }
+    }
+
+    private takePending(uri?: vscode.Uri): PendingImprovement | undefined {
+        const id = uri?.scheme === OllamaImprovePreview.scheme ? uri.query : this.lastId;
+        const improvement = id ? this.pending.get(id) : undefined;
+
+        if (improvement) {
+            this.pending.delete(improvement.id);
+        }
+        return improvement;
+    }
+
+    private async closePreview(improvement: PendingImprovement): Promise<void> {
+        const active = vscode.window.activeTextEditor?.document.uri;
+        if (active?.scheme === OllamaImprovePreview.scheme && active.query === improvement.id) {
+            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+        }
+    }
+
+    /**
+     * Models usually return code flush-left; shift it back to the indentation
+     * of the line the selection starts on so it drops into place.
+     */
+    private matchSelectionIndentation(code: string, document: vscode.TextDocument, range: vscode.Range): string {
+        const lineIndentation = document.lineAt(range.start.line).text.match(/^[ \t]*/)![0];
+        const reindented = reindent(code, lineIndentation);
+
+        // The document already has the indentation before a selection that starts after it
+        return range.start.character >= lineIndentation.length
+            ? reindented.substring(lineIndentation.length)
+            : reindented;
+    }
+}
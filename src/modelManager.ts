@@ -1,38 +1,116 @@
 import * as vscode from 'vscode';
-import { OllamaApi, OllamaModel } from './ollamaApi';
+import { OllamaApi, OllamaModel, OllamaModelInfo, OllamaModelRole, OllamaPullProgress, OllamaRequestCancelledError } from './ollamaApi';
+import { OllamaConnectionMonitor } from './connectionMonitor';
+import { affectsEndpoints, describeEndpointChain, getActiveEndpoint, getEndpoints } from './endpoints';
+
+const ROLE_LABELS: Record<OllamaModelRole, string> = {
+    chat: 'Chat',
+    completions: 'Completions',
+    embeddings: 'Embeddings'
+};
+
+export const MODEL_SETTINGS = ['ollama.model', 'ollama.chat.model', 'ollama.completions.model', 'ollama.embeddings.model'];
+
+export const MODEL_ROLES = Object.keys(ROLE_LABELS) as OllamaModelRole[];
+
+export function formatSize(bytes: number): string {
+    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+    if (bytes === 0) return '0 B';
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+}
+
+/**
+ * True if both names refer to the same model; a name without a tag means
+ * the `latest` tag.
+ */
+export function isSameModel(a: string, b: string): boolean {
+    const normalize = (name: string) => name.includes(':') ? name : `${name}:latest`;
+    return normalize(a) === normalize(b);
+}
 
 export class OllamaModelManager {
     private ollamaApi: OllamaApi;
+    private connectionMonitor: OllamaConnectionMonitor;
     private statusBarItem: vscode.StatusBarItem;
+    private readonly _onDidChangeModels = new vscode.EventEmitter<void>();
+
+    // Fires after a model is pulled, deleted, copied or unloaded
+    readonly onDidChangeModels = this._onDidChangeModels.event;
 
-    constructor(ollamaApi: OllamaApi) {
+    constructor(ollamaApi: OllamaApi, connectionMonitor: OllamaConnectionMonitor) {
         this.ollamaApi = ollamaApi;
+        this.connectionMonitor = connectionMonitor;
         
         // Create status bar item
         this.statusBarItem = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Right,
             100
         );
-        this.statusBarItem.command = 'ollama.selectModel';
-        this.statusBarItem.tooltip = 'Click to select Ollama model';
         
         this.updateStatusBar();
         this.statusBarItem.show();
         
         // Listen for configuration changes
         vscode.workspace.onDidChangeConfiguration((event) => {
-            if (event.affectsConfiguration('ollama.model')) {
+            if (MODEL_SETTINGS.some(setting => event.affectsConfiguration(setting)) || affectsEndpoints(event)) {
                 this.updateStatusBar();
             }
         });
+        // The completion model may be overridden for the new editor's language
+        vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusBar());
+        connectionMonitor.onDidChangeState(() => this.updateStatusBar());
     }
 
     private updateStatusBar() {
-        const currentModel = this.ollamaApi.getDefaultModel();
-        this.statusBarItem.text = `$(robot) ${currentModel}`;
+        const state = this.connectionMonitor.state;
+
+        if (state === 'disconnected') {
+            this.statusBarItem.text = '$(debug-disconnect) Ollama offline';
+            this.statusBarItem.tooltip = `Cannot connect to Ollama at ${describeEndpointChain()}. Retrying in the background.\n\nClick to check now`;
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+            this.statusBarItem.command = 'ollama.checkConnection';
+            return;
+        }
+
+        this.statusBarItem.backgroundColor = undefined;
+        this.statusBarItem.command = 'ollama.selectModel';
+
+        if (state === 'loadingModel') {
+            this.statusBarItem.text = `$(sync~spin) Loading ${this.connectionMonitor.loadingModel}`;
+            this.statusBarItem.tooltip = 'Ollama is loading the model into memory';
+            return;
+        }
+
+        const chatModel = this.ollamaApi.getModelForRole('chat');
+        const completionModel = this.getCompletionModel();
+
+        this.statusBarItem.text = chatModel === completionModel
+            ? `$(robot) ${chatModel}`
+            : `$(robot) ${chatModel} $(code) ${completionModel}`;
+
+        const roles = MODEL_ROLES
+            .map(role => `${ROLE_LABELS[role]}: ${role === 'completions' ? completionModel : this.ollamaApi.getModelForRole(role)}`);
+        const endpoint = getActiveEndpoint();
+        this.statusBarItem.tooltip = [...roles, `Endpoint: ${endpoint.name} (${endpoint.url})`, '', 'Click to select Ollama models'].join('\n');
+    }
+
+    // Completion models can be overridden per language, so show the active editor's
+    private getCompletionModel(): string {
+        return this.ollamaApi.getModelForRole('completions', vscode.window.activeTextEditor?.document);
     }
 
-    async selectModel(): Promise<void> {
+    /**
+     * Picks a model for a role. Without a role, asks which role to change
+     * first; "Default" sets `ollama.model`, which roles without their own
+     * model use.
+     */
+    async selectModel(role?: OllamaModelRole | 'default'): Promise<void> {
+        const selectedRole = role ?? await this.pickRole('Select which model to change');
+        if (!selectedRole) {
+            return;
+        }
+
         try {
             // Show loading
             vscode.window.withProgress({
@@ -43,32 +121,24 @@ export class OllamaModelManager {
                 const models = await this.ollamaApi.getModels();
                 
                 if (models.length === 0) {
-                    vscode.window.showWarningMessage(
-                        'No Ollama models found. Please ensure Ollama is running and has models installed.',
-                        'Install Models'
-                    ).then(selection => {
-                        if (selection === 'Install Models') {
-                            vscode.env.openExternal(vscode.Uri.parse('https://ollama.ai/library'));
-                        }
-                    });
+                    this.showNoModelsWarning();
                     return;
                 }
 
-                const items: vscode.QuickPickItem[] = models.map(model => ({
-                    label: model.name,
-                    description: `${model.details.parameter_size} • ${this.formatSize(model.size)}`,
-                    detail: `${model.details.family} • ${model.details.quantization_level}`
-                }));
+                const items = models.map(model => this.toQuickPickItem(model));
 
-                const currentModel = this.ollamaApi.getDefaultModel();
+                const currentModel = selectedRole === 'default'
+                    ? this.ollamaApi.getDefaultModel()
+                    : this.ollamaApi.getModelForRole(selectedRole);
+                const roleLabel = selectedRole === 'default' ? 'Default' : ROLE_LABELS[selectedRole];
                 const selected = await vscode.window.showQuickPick(items, {
-                    placeHolder: `Current: ${currentModel} - Select a different model`,
+                    placeHolder: `${roleLabel} model: ${currentModel} - Select a different model`,
                     matchOnDescription: true,
                     matchOnDetail: true
                 });
 
                 if (selected && selected.label !== currentModel) {
-                    await this.setModel(selected.label);
+                    await this.setModel(selected.label, selectedRole);
                 }
             });
         } catch (error) {
@@ -78,15 +148,46 @@ export class OllamaModelManager {
         }
     }
 
-    async setModel(modelName: string): Promise<void> {
+    /**
+     * Asks which role an installed model should serve, then assigns it.
+     */
+    async assignModel(modelName: string): Promise<void> {
+        const role = await this.pickRole(`Use ${modelName} for`);
+        if (role) {
+            await this.setModel(modelName, role);
+        }
+    }
+
+    private async pickRole(placeHolder: string): Promise<OllamaModelRole | 'default' | undefined> {
+        const roleItems: (vscode.QuickPickItem & { role: OllamaModelRole | 'default' })[] = [
+            ...MODEL_ROLES.map(role => ({
+                label: ROLE_LABELS[role],
+                description: role === 'completions' ? this.getCompletionModel() : this.ollamaApi.getModelForRole(role),
+                role
+            })),
+            {
+                label: 'Default',
+                description: this.ollamaApi.getDefaultModel(),
+                detail: 'Used by chat and completions when they have no model of their own',
+                role: 'default'
+            }
+        ];
+
+        const selected = await vscode.window.showQuickPick(roleItems, { placeHolder });
+        return selected?.role;
+    }
+
+    async setModel(modelName: string, role: OllamaModelRole | 'default' = 'default'): Promise<void> {
         try {
             const config = vscode.workspace.getConfiguration('ollama');
-            await config.update('model', modelName, vscode.ConfigurationTarget.Global);
+            await config.update(role === 'default' ? 'model' : `${role}.model`, modelName, vscode.ConfigurationTarget.Global);
             
             this.updateStatusBar();
             
             vscode.window.showInformationMessage(
-                `Ollama model changed to: ${modelName}`
+                role === 'default'
+                    ? `Ollama model changed to: ${modelName}`
+                    : `Ollama ${ROLE_LABELS[role].toLowerCase()} model changed to: ${modelName}`
             );
         } catch (error) {
             vscode.window.showErrorMessage(
@@ -95,9 +196,332 @@ export class OllamaModelManager {
         }
     }
 
+    /**
+     * Pulls a model from the Ollama library, showing the download progress
+     * of all layers in a cancellable notification.
+     */
+    async pullModel(name?: string): Promise<void> {
+        const modelName = name ?? (await vscode.window.showInputBox({
+            prompt: 'Name of the model to pull from the Ollama library',
+            placeHolder: 'e.g. llama3.2, qwen2.5-coder:7b',
+            validateInput: value => value.trim() ? undefined : 'Enter a model name'
+        }))?.trim();
+        if (!modelName) {
+            return;
+        }
+
+        try {
+            const pulled = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Pulling ${modelName}`,
+                cancellable: true
+            }, async (progress, token) => {
+                const request = new AbortController();
+                const cancellation = token.onCancellationRequested(() => request.abort());
+
+                // Layers are downloaded one after another; track them all for one overall bar
+                const layers = new Map<string, { total: number; completed: number }>();
+                let reported = 0;
+
+                const onProgress = (update: OllamaPullProgress) => {
+                    if (update.digest && update.total) {
+                        layers.set(update.digest, { total: update.total, completed: update.completed ?? 0 });
+                    }
+
+                    const total = Array.from(layers.values()).reduce((sum, layer) => sum + layer.total, 0);
+                    const completed = Array.from(layers.values()).reduce((sum, layer) => sum + layer.completed, 0);
+                    const percent = total > 0 ? Math.floor(completed / total * 100) : 0;
+
+                    progress.report({
+                        message: total > 0 && update.total
+                            ? `${update.status} (${formatSize(completed)} / ${formatSize(total)})`
+                            : update.status,
+                        increment: Math.max(0, percent - reported)
+                    });
+                    reported = Math.max(reported, percent);
+                };
+
+                try {
+                    await this.ollamaApi.pullModel(modelName, onProgress, { signal: request.signal });
+                    return true;
+                } catch (error) {
+                    if (error instanceof OllamaRequestCancelledError) {
+                        return false;
+                    }
+                    throw error;
+                } finally {
+                    cancellation.dispose();
+                }
+            });
+
+            if (!pulled) {
+                vscode.window.showInformationMessage(`Cancelled pulling ${modelName}`);
+                return;
+            }
+            this._onDidChangeModels.fire();
+
+            const selection = await vscode.window.showInformationMessage(
+                `Pulled ${modelName}`,
+                'Use for Chat',
+                'Use for Completions'
+            );
+            if (selection === 'Use for Chat') {
+                await this.setModel(modelName, 'chat');
+            } else if (selection === 'Use for Completions') {
+                await this.setModel(modelName, 'completions');
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to pull model: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    async deleteModel(name?: string): Promise<void> {
+        const modelName = name ?? await this.pickInstalledModel('Select a model to delete');
+        if (!modelName) {
+            return;
+        }
+
+        const confirmation = await vscode.window.showWarningMessage(
+            `Delete ${modelName}? Its files are removed from disk and must be pulled again to use it.`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirmation !== 'Delete') {
+            return;
+        }
+
+        try {
+            await this.ollamaApi.deleteModel(modelName);
+            this._onDidChangeModels.fire();
+
+            const roles = MODEL_ROLES
+                .filter(role => isSameModel(this.ollamaApi.getModelForRole(role), modelName));
+            if (roles.length > 0) {
+                vscode.window.showWarningMessage(
+                    `Deleted ${modelName}, which is still the ${roles.map(role => ROLE_LABELS[role].toLowerCase()).join(' and ')} model`,
+                    'Select Model'
+                ).then(selection => {
+                    if (selection === 'Select Model') {
+                        this.selectModel();
+                    }
+                });
+            } else {
+                vscode.window.showInformationMessage(`Deleted ${modelName}`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to delete model: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Copies a model under a new name, e.g. to tag it. Overwriting an
+     * existing model needs confirmation.
+     */
+    async copyModel(name?: string): Promise<void> {
+        const source = name ?? await this.pickInstalledModel('Select a model to copy');
+        if (!source) {
+            return;
+        }
+
+        const destination = (await vscode.window.showInputBox({
+            prompt: `New name for a copy of ${source}`,
+            value: source.includes(':') ? source.split(':')[0] + ':' : `${source}:`,
+            validateInput: value => {
+                const trimmed = value.trim();
+                if (!trimmed) {
+                    return 'Enter a model name';
+                }
+                return trimmed === source ? 'Enter a name different from the source' : undefined;
+            }
+        }))?.trim();
+        if (!destination) {
+            return;
+        }
+
+        try {
+            const models = await this.ollamaApi.getModels(true);
+            const normalized = destination.includes(':') ? destination : `${destination}:latest`;
+            if (models.some(model => model.name === normalized)) {
+                const confirmation = await vscode.window.showWarningMessage(
+                    `${normalized} already exists. Replace it with a copy of ${source}?`,
+                    { modal: true },
+                    'Replace'
+                );
+                if (confirmation !== 'Replace') {
+                    return;
+                }
+            }
+
+            await this.ollamaApi.copyModel(source, destination);
+            this._onDidChangeModels.fire();
+            vscode.window.showInformationMessage(`Copied ${source} to ${destination}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to copy model: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    async unloadModel(modelName: string): Promise<void> {
+        try {
+            await this.ollamaApi.unloadModel(modelName);
+            this._onDidChangeModels.fire();
+            vscode.window.showInformationMessage(`Unloaded ${modelName} from memory`);
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to unload model: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Opens the `/api/show` details of a model as a Markdown document.
+     */
+    async showModelInfo(name?: string): Promise<void> {
+        const modelName = name ?? await this.pickInstalledModel('Select a model to show');
+        if (!modelName) {
+            return;
+        }
+
+        try {
+            const info = await this.ollamaApi.showModel(modelName, true);
+            const document = await vscode.workspace.openTextDocument({
+                language: 'markdown',
+                content: this.formatModelInfo(modelName, info)
+            });
+            await vscode.window.showTextDocument(document, { preview: true });
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to show model: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    private formatModelInfo(name: string, info: OllamaModelInfo): string {
+        const sections: string[] = [`# ${name}`];
+
+        const details: [string, string | undefined][] = [
+            ['Family', info.details?.family],
+            ['Parameters', info.details?.parameter_size],
+            ['Quantization', info.details?.quantization_level],
+            ['Format', info.details?.format],
+            ['Parent model', info.details?.parent_model],
+            ['Capabilities', info.capabilities?.join(', ')],
+            ['Modified', info.modified_at]
+        ];
+        const rows = details.filter(([, value]) => value);
+        if (rows.length > 0) {
+            sections.push(['| | |', '| --- | --- |', ...rows.map(([label, value]) => `| ${label} | ${value} |`)].join('\n'));
+        }
+
+        const blocks: [string, string | undefined][] = [
+            ['Parameters', info.parameters],
+            ['System', info.system],
+            ['Template', info.template],
+            ['License', info.license],
+            ['Modelfile', info.modelfile]
+        ];
+        for (const [title, content] of blocks) {
+            if (content && content.trim()) {
+                // A longer fence than any inside the content keeps it intact
+                const fence = '`'.repeat(Math.max(3, ...(content.match(/`+/g) ?? []).map(run => run.length + 1)));
+                sections.push(`## ${title}\n\n${fence}\n${content.trim()}\n${fence}`);
+            }
+        }
+
+        return sections.join('\n\n') + '\n';
+    }
+
+    private async pickInstalledModel(placeHolder: string): Promise<string | undefined> {
+        try {
+            const models = await this.ollamaApi.getModels(true);
+            if (models.length === 0) {
+                this.showNoModelsWarning();
+                return undefined;
+            }
+
+            const selected = await vscode.window.showQuickPick(models.map(model => this.toQuickPickItem(model)), {
+                placeHolder,
+                matchOnDescription: true,
+                matchOnDetail: true
+            });
+            return selected?.label;
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to load models: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+            return undefined;
+        }
+    }
+
+    private toQuickPickItem(model: OllamaModel): vscode.QuickPickItem {
+        return {
+            label: model.name,
+            description: `${model.details.parameter_size} • ${formatSize(model.size)}`,
+            detail: `${model.details.family} • ${model.details.quantization_level}`
+        };
+    }
+
+    private showNoModelsWarning(): void {
+        vscode.window.showWarningMessage(
+            'No Ollama models found. Pull a model to get started.',
+            'Pull Model'
+        ).then(selection => {
+            if (selection === 'Pull Model') {
+                this.pullModel();
+            }
+        });
+    }
+
+    /**
+     * Switches the active endpoint profile, which requests try first and
+     * which model changes are sent to.
+     */
+    async selectEndpoint(): Promise<void> {
+        const endpoints = getEndpoints();
+        if (endpoints.length < 2) {
+            vscode.window.showInformationMessage(
+                'Only one Ollama endpoint is configured. Add profiles in ollama.endpoints to switch between servers.',
+                'Open Settings'
+            ).then(selection => {
+                if (selection === 'Open Settings') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'ollama.endpoints');
+                }
+            });
+            return;
+        }
+
+        const active = getActiveEndpoint();
+        const items = endpoints.map(endpoint => ({
+            label: endpoint.name,
+            description: endpoint.name === active.name ? `${endpoint.url} (active)` : endpoint.url
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `Active endpoint: ${active.name} - Select a different endpoint`
+        });
+        if (!selected || selected.label === active.name) {
+            return;
+        }
+
+        try {
+            const config = vscode.workspace.getConfiguration('ollama');
+            await config.update('activeEndpoint', selected.label, vscode.ConfigurationTarget.Global);
+            vscode.window.showInformationMessage(`Ollama endpoint changed to: ${selected.label}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to set endpoint: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
     async checkOllamaConnection(): Promise<boolean> {
         try {
-            return await this.ollamaApi.isHealthy();
+            return await this.connectionMonitor.checkNow();
         } catch (error) {
             return false;
         }
@@ -118,11 +542,8 @@ export class OllamaModelManager {
                 );
             }
         } else {
-            const config = vscode.workspace.getConfiguration('ollama');
-            const apiUrl = config.get<string>('apiUrl', 'http://localhost:11434');
-            
             vscode.window.showErrorMessage(
-                `❌ Cannot connect to Ollama at ${apiUrl}`,
+                `❌ Cannot connect to Ollama at ${describeEndpointChain()}`,
                 'Open Settings',
                 'Help'
             ).then(selection => {
@@ -135,15 +556,9 @@ export class OllamaModelManager {
         }
     }
 
-    private formatSize(bytes: number): string {
-        const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-        if (bytes === 0) return '0 B';
-        const i = Math.floor(Math.log(bytes) / Math.log(1024));
-        return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
-    }
-
     dispose(): void {
         this.statusBarItem.dispose();
+        this._onDidChangeModels.dispose();
     }
 }
 
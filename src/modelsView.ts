@@ -0,0 +1,290 @@
+import * as vscode from 'vscode';
+import { OllamaApi, OllamaModel, OllamaRunningModel } from './ollamaApi';
+import { OllamaModelManager, MODEL_ROLES, MODEL_SETTINGS, formatSize, isSameModel } from './modelManager';
+import { affectsEndpoints, getActiveEndpoint, getEndpoints } from './endpoints';
+
+// How often loaded models are refreshed while the view is visible
+const RUNNING_REFRESH_INTERVAL = 15000;
+
+interface OllamaModelGroupNode {
+    kind: 'group';
+    id: string;
+    label: string;
+    icon: string;
+    children: OllamaModelNode[];
+}
+
+interface OllamaModelItemNode {
+    kind: 'model';
+    modelName: string;
+    model?: OllamaModel;
+    running?: OllamaRunningModel;
+    // Items under "Loaded" describe memory use instead of the download
+    inLoadedGroup: boolean;
+}
+
+export type OllamaModelNode = OllamaModelGroupNode | OllamaModelItemNode;
+
+/**
+ * Resolves the model a command applies to, whether it was run from the
+ * Models view with a tree node or programmatically with a name.
+ */
+export function getModelName(target?: string | OllamaModelNode): string | undefined {
+    if (typeof target === 'string') {
+        return target;
+    }
+    return target?.kind === 'model' ? target.modelName : undefined;
+}
+
+/**
+ * The Models view: the models loaded into memory from `/api/ps`, followed
+ * by every installed model grouped by family.
+ */
+export class OllamaModelsTreeProvider implements vscode.TreeDataProvider<OllamaModelNode>, vscode.Disposable {
+    public static readonly viewType = 'ollamaModels';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<OllamaModelNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private treeView?: vscode.TreeView<OllamaModelNode>;
+    private refreshTimer?: NodeJS.Timeout;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly ollamaApi: OllamaApi,
+        private readonly modelManager: OllamaModelManager
+    ) {}
+
+    register(context: vscode.ExtensionContext): void {
+        this.treeView = vscode.window.createTreeView(OllamaModelsTreeProvider.viewType, {
+            treeDataProvider: this,
+            showCollapseAll: true
+        });
+
+        this.disposables.push(
+            this.treeView,
+            this.treeView.onDidChangeVisibility(() => this.updateRefreshTimer()),
+            this.modelManager.onDidChangeModels(() => this.refresh()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (affectsEndpoints(event) ||
+                    MODEL_SETTINGS.some(setting => event.affectsConfiguration(setting))) {
+                    this.refresh();
+                }
+            })
+        );
+
+        context.subscriptions.push(
+            this,
+            vscode.commands.registerCommand('ollama.refreshModels', () => this.refresh()),
+            vscode.commands.registerCommand('ollama.assignModel', (target?: OllamaModelNode) => {
+                const name = getModelName(target);
+                return name ? this.modelManager.assignModel(name) : this.modelManager.selectModel();
+            }),
+            vscode.commands.registerCommand('ollama.unloadModel', (target?: OllamaModelNode) => {
+                const name = getModelName(target);
+                return name ? this.modelManager.unloadModel(name) : undefined;
+            })
+        );
+
+        this.updateRefreshTimer();
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getTreeItem(node: OllamaModelNode): vscode.TreeItem {
+        if (node.kind === 'group') {
+            const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+            item.id = node.id;
+            item.iconPath = new vscode.ThemeIcon(node.icon);
+            item.description = `${node.children.length}`;
+            item.contextValue = 'modelGroup';
+            return item;
+        }
+
+        const item = new vscode.TreeItem(node.modelName, vscode.TreeItemCollapsibleState.None);
+        item.id = `${node.inLoadedGroup ? 'loaded' : 'installed'}:${node.modelName}`;
+        item.iconPath = new vscode.ThemeIcon(node.running ? 'pulse' : 'package');
+        item.description = this.describe(node);
+        item.tooltip = this.getTooltip(node);
+        item.contextValue = node.running ? 'model.loaded' : 'model';
+        item.command = {
+            command: 'ollama.showModelInfo',
+            title: 'Show Model Info',
+            arguments: [node.modelName]
+        };
+        return item;
+    }
+
+    async getChildren(node?: OllamaModelNode): Promise<OllamaModelNode[]> {
+        if (node) {
+            return node.kind === 'group' ? node.children : [];
+        }
+
+        // Model actions only go to the active endpoint, so list what is installed there
+        const endpoint = getActiveEndpoint();
+        if (this.treeView) {
+            this.treeView.description = getEndpoints().length > 1 ? endpoint.name : undefined;
+        }
+
+        let models: OllamaModel[];
+        try {
+            models = await this.ollamaApi.getModels(true);
+        } catch (error) {
+            this.setMessage(`Cannot connect to Ollama at ${endpoint.url}`);
+            return [];
+        }
+        this.setMessage(undefined);
+
+        // Older servers have no /api/ps; show the installed models regardless
+        const running = await this.ollamaApi.getRunningModels(true).catch(() => [] as OllamaRunningModel[]);
+        const runningByName = new Map(running.map(model => [model.name, model]));
+
+        const groups: OllamaModelNode[] = [];
+        if (running.length > 0) {
+            groups.push({
+                kind: 'group',
+                id: 'loaded',
+                label: 'Loaded',
+                icon: 'pulse',
+                children: running.map(model => ({
+                    kind: 'model',
+                    modelName: model.name,
+                    model: models.find(installed => installed.name === model.name),
+                    running: model,
+                    inLoadedGroup: true
+                }))
+            });
+        }
+
+        const families = new Map<string, OllamaModelItemNode[]>();
+        for (const model of models) {
+            const family = model.details?.family || 'other';
+            const children = families.get(family) ?? [];
+            children.push({
+                kind: 'model',
+                modelName: model.name,
+                model,
+                running: runningByName.get(model.name),
+                inLoadedGroup: false
+            });
+            families.set(family, children);
+        }
+
+        for (const family of Array.from(families.keys()).sort()) {
+            groups.push({
+                kind: 'group',
+                id: `family:${family}`,
+                label: family,
+                icon: 'symbol-namespace',
+                children: families.get(family)!.sort((a, b) => a.modelName.localeCompare(b.modelName))
+            });
+        }
+
+        return groups;
+    }
+
+    private describe(node: OllamaModelItemNode): string {
+        const roles = this.getRoles(node.modelName);
+        const parts: string[] = [];
+
+        if (node.inLoadedGroup && node.running) {
+            parts.push(this.describeMemory(node.running), this.describeExpiry(node.running.expires_at));
+        } else if (node.model) {
+            parts.push(
+                node.model.details.parameter_size,
+                node.model.details.quantization_level,
+                formatSize(node.model.size)
+            );
+        }
+        if (roles.length > 0) {
+            parts.push(roles.join(', '));
+        }
+
+        return parts.filter(Boolean).join(' · ');
+    }
+
+    private getTooltip(node: OllamaModelItemNode): vscode.MarkdownString {
+        const lines = [`**${node.modelName}**`, ''];
+        const details = node.model?.details ?? node.running?.details;
+
+        if (details) {
+            lines.push(
+                `- Family: ${details.family}`,
+                `- Parameters: ${details.parameter_size}`,
+                `- Quantization: ${details.quantization_level}`
+            );
+        }
+        if (node.model) {
+            lines.push(`- Size on disk: ${formatSize(node.model.size)}`);
+        }
+        if (node.running) {
+            lines.push(
+                `- Memory: ${this.describeMemory(node.running)}`,
+                `- ${this.describeExpiry(node.running.expires_at)}`
+            );
+        }
+
+        const roles = this.getRoles(node.modelName);
+        if (roles.length > 0) {
+            lines.push(`- Used for: ${roles.join(', ')}`);
+        }
+
+        return new vscode.MarkdownString(lines.join('\n'));
+    }
+
+    private describeMemory(running: OllamaRunningModel): string {
+        const ram = Math.max(0, running.size - running.size_vram);
+        if (ram === 0) {
+            return `${formatSize(running.size_vram)} VRAM`;
+        }
+        if (running.size_vram === 0) {
+            return `${formatSize(ram)} RAM`;
+        }
+        return `${formatSize(running.size_vram)} VRAM + ${formatSize(ram)} RAM`;
+    }
+
+    private describeExpiry(expiresAt: string): string {
+        const remaining = new Date(expiresAt).getTime() - Date.now();
+        if (isNaN(remaining)) {
+            return '';
+        }
+        // A negative keep_alive keeps the model loaded; the server reports a date centuries away
+        if (remaining > 365 * 24 * 60 * 60 * 1000) {
+            return 'stays loaded';
+        }
+        if (remaining < 60 * 1000) {
+            return 'unloads in under a minute';
+        }
+        const minutes = Math.round(remaining / 60000);
+        return minutes < 60 ? `unloads in ${minutes} min` : `unloads in ${Math.round(minutes / 60)} h`;
+    }
+
+    private getRoles(modelName: string): string[] {
+        return MODEL_ROLES.filter(role => isSameModel(this.ollamaApi.getModelForRole(role), modelName));
+    }
+
+    private setMessage(message: string | undefined): void {
+        if (this.treeView) {
+            this.treeView.message = message;
+        }
+    }
+
+    private updateRefreshTimer(): void {
+        if (this.treeView?.visible && !this.refreshTimer) {
+            this.refreshTimer = setInterval(() => this.refresh(), RUNNING_REFRESH_INTERVAL);
+        } else if (!this.treeView?.visible && this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+        }
+        this._onDidChangeTreeData.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
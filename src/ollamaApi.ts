@@ -1,45 +1,127 @@
 import axios, { AxiosResponse } from 'axios';
+import * as fs from 'fs';
+import * as https from 'https';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
 import * as vscode from 'vscode';
+import { OllamaEndpoint, getActiveEndpoint, getEndpointChain } from './endpoints';
+import type { OllamaCredentialStore } from './credentials';
 
 export interface OllamaMessage {
     role: 'system' | 'user' | 'assistant';
     content: string;
 }
 
-export interface OllamaGenerateRequest {
+/**
+ * Model parameters accepted in the `options` of generate and chat requests.
+ * Load-time parameters such as `num_ctx` or `num_gpu` reload the model when
+ * they differ from the ones it was loaded with.
+ */
+export interface OllamaModelOptions {
+    // Sampling
+    temperature?: number;
+    top_k?: number;
+    top_p?: number;
+    min_p?: number;
+    typical_p?: number;
+    seed?: number;
+    num_predict?: number;
+    stop?: string[];
+
+    // Repetition
+    num_keep?: number;
+    repeat_last_n?: number;
+    repeat_penalty?: number;
+    presence_penalty?: number;
+    frequency_penalty?: number;
+    penalize_newline?: boolean;
+
+    // Mirostat sampling: 0 disables it, 1 and 2 select the version
+    mirostat?: 0 | 1 | 2;
+    mirostat_tau?: number;
+    mirostat_eta?: number;
+
+    // Loading and hardware
+    num_ctx?: number;
+    num_batch?: number;
+    num_gpu?: number;
+    main_gpu?: number;
+    num_thread?: number;
+    numa?: boolean;
+    low_vram?: boolean;
+    use_mmap?: boolean;
+    use_mlock?: boolean;
+    vocab_only?: boolean;
+}
+
+/**
+ * The value type of every model option, for checking options read from
+ * files before they are sent.
+ */
+export const MODEL_OPTION_TYPES: Record<keyof OllamaModelOptions, 'number' | 'boolean' | 'string[]'> = {
+    temperature: 'number',
+    top_k: 'number',
+    top_p: 'number',
+    min_p: 'number',
+    typical_p: 'number',
+    seed: 'number',
+    num_predict: 'number',
+    stop: 'string[]',
+    num_keep: 'number',
+    repeat_last_n: 'number',
+    repeat_penalty: 'number',
+    presence_penalty: 'number',
+    frequency_penalty: 'number',
+    penalize_newline: 'boolean',
+    mirostat: 'number',
+    mirostat_tau: 'number',
+    mirostat_eta: 'number',
+    num_ctx: 'number',
+    num_batch: 'number',
+    num_gpu: 'number',
+    main_gpu: 'number',
+    num_thread: 'number',
+    numa: 'boolean',
+    low_vram: 'boolean',
+    use_mmap: 'boolean',
+    use_mlock: 'boolean',
+    vocab_only: 'boolean'
+};
+
+// "json", or a JSON schema the response must follow
+export type OllamaResponseFormat = 'json' | Record<string, unknown>;
+
+/**
+ * Request fields shared by generate and chat requests. `keep_alive` is a
+ * duration such as "10m", a number of seconds, or -1 to keep the model
+ * loaded.
+ */
+export interface OllamaGenerationSettings {
+    options?: OllamaModelOptions;
+    keep_alive?: string | number;
+    format?: OllamaResponseFormat;
+}
+
+export interface OllamaGenerateRequest extends OllamaGenerationSettings {
     model: string;
     prompt: string;
     suffix?: string;
+    system?: string;
     stream?: boolean;
     raw?: boolean;
-    options?: {
-        temperature?: number;
-        top_k?: number;
-        top_p?: number;
-        num_predict?: number;
-        stop?: string[];
-    };
 }
 
-export interface OllamaChatRequest {
+export interface OllamaChatRequest extends OllamaGenerationSettings {
     model: string;
     messages: OllamaMessage[];
     stream?: boolean;
-    options?: {
-        temperature?: number;
-        top_k?: number;
-        top_p?: number;
-        num_predict?: number;
-        stop?: string[];
-    };
 }
 
-export interface OllamaResponse {
-    model: string;
-    created_at: string;
-    response: string;
-    done: boolean;
-    context?: number[];
+export interface OllamaGenerationMetrics {
+    done_reason?: string;
     total_duration?: number;
     load_duration?: number;
     prompt_eval_count?: number;
@@ -48,17 +130,39 @@ export interface OllamaResponse {
     eval_duration?: number;
 }
 
-export interface OllamaChatResponse {
+export interface OllamaResponse extends OllamaGenerationMetrics {
+    model: string;
+    created_at: string;
+    response: string;
+    done: boolean;
+    context?: number[];
+}
+
+export interface OllamaChatResponse extends OllamaGenerationMetrics {
     model: string;
     created_at: string;
     message: OllamaMessage;
     done: boolean;
-    total_duration?: number;
-    load_duration?: number;
-    prompt_eval_count?: number;
-    prompt_eval_duration?: number;
-    eval_count?: number;
-    eval_duration?: number;
+}
+
+export interface OllamaEmbedRequest {
+    model: string;
+    input: string | string[];
+    // Cut inputs that exceed the context length instead of failing
+    truncate?: boolean;
+    keep_alive?: string | number;
+}
+
+export interface OllamaEmbedResponse {
+    model: string;
+    embeddings: number[][];
+}
+
+export interface OllamaPullProgress {
+    status: string;
+    digest?: string;
+    total?: number;
+    completed?: number;
 }
 
 export interface OllamaModel {
@@ -78,122 +182,569 @@ export interface OllamaModelsResponse {
     models: OllamaModel[];
 }
 
-export class OllamaApi {
-    private baseUrl: string = 'http://localhost:11434';
-    private timeout: number = 30000;
+/**
+ * A model currently loaded into memory, from `/api/ps`. `size` is the total
+ * memory it occupies, of which `size_vram` is on the GPU.
+ */
+export interface OllamaRunningModel {
+    name: string;
+    model: string;
+    size: number;
+    size_vram: number;
+    digest: string;
+    expires_at: string;
+    details: OllamaModel['details'];
+}
+
+/**
+ * The `/api/show` response. Which fields are present depends on the model
+ * and the Ollama version.
+ */
+export interface OllamaModelInfo {
+    modelfile?: string;
+    parameters?: string;
+    template?: string;
+    system?: string;
+    license?: string;
+    modified_at?: string;
+    capabilities?: string[];
+    details?: Partial<OllamaModel['details']> & {
+        parent_model?: string;
+        families?: string[];
+    };
+    model_info?: Record<string, unknown>;
+}
+
+export type OllamaModelRole = 'chat' | 'completions' | 'embeddings';
+
+const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
+// Context window the server uses when neither the request nor the Modelfile sets num_ctx
+const DEFAULT_CONTEXT_LENGTH = 4096;
+
+/**
+ * Context sizes read from `/api/show`: `num_ctx` set in the Modelfile and
+ * the length the model was trained with.
+ */
+interface OllamaContextInfo {
+    configured?: number;
+    trained?: number;
+}
+
+export interface OllamaRequestOptions {
+    signal?: AbortSignal;
+    // Picks the endpoints tried for the request; without it the active endpoint comes first
+    role?: OllamaModelRole;
+}
 
+export class OllamaRequestCancelledError extends Error {
     constructor() {
+        super('Request cancelled');
+        this.name = 'OllamaRequestCancelledError';
+    }
+}
+
+/**
+ * An error reported by the Ollama server itself, either as an HTTP error or
+ * as an `{"error": ...}` frame in the middle of a stream.
+ */
+export class OllamaServerError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'OllamaServerError';
+    }
+}
+
+/**
+ * Incremental decoder for newline-delimited JSON. Chunks may split a frame,
+ * or a multi-byte character, anywhere; incomplete lines are buffered until
+ * the rest arrives.
+ */
+export class NdjsonDecoder<T> {
+    private decoder = new StringDecoder('utf8');
+    private buffer: string = '';
+
+    write(chunk: Buffer | string): T[] {
+        this.buffer += typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop() ?? '';
+
+        return this.parseLines(lines);
+    }
+
+    end(): T[] {
+        const rest = this.buffer + this.decoder.end();
+        this.buffer = '';
+        return this.parseLines([rest]);
+    }
+
+    private parseLines(lines: string[]): T[] {
+        const frames: T[] = [];
+
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed) {
+                continue;
+            }
+
+            const frame = JSON.parse(trimmed);
+            if (frame && typeof frame.error === 'string') {
+                throw new OllamaServerError(frame.error);
+            }
+            frames.push(frame as T);
+        }
+
+        return frames;
+    }
+}
+
+/**
+ * Reported when a generation request is sent (`waiting: true`) and when the
+ * first response for it arrives or the request ends (`waiting: false`). A
+ * long wait usually means the server is loading the model.
+ */
+export interface OllamaRequestActivity {
+    model: string;
+    waiting: boolean;
+    // Whether the server responded, as opposed to the request failing or being cancelled
+    ok?: boolean;
+}
+
+// How long an unreachable endpoint is tried last instead of first
+const UNREACHABLE_COOLDOWN = 30000;
+
+// Network errors that mean the server can't be reached at all, so another endpoint may help
+const UNREACHABLE_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN', 'ETIMEDOUT'];
+
+interface OllamaHttpRequest {
+    method: 'get' | 'post' | 'delete';
+    path: string;
+    data?: object;
+    signal?: AbortSignal;
+    responseType?: 'stream';
+    // Overrides the endpoint's timeout; 0 disables it
+    timeout?: number;
+}
+
+export class OllamaApi {
+    private unreachableUntil = new Map<string, number>();
+    private contextInfo = new Map<string, Promise<OllamaContextInfo>>();
+    private httpsAgent?: https.Agent;
+    private tlsSettings?: string;
+    private readonly _onDidChangeRequestActivity = new vscode.EventEmitter<OllamaRequestActivity>();
+
+    readonly onDidChangeRequestActivity = this._onDidChangeRequestActivity.event;
+
+    constructor(private readonly credentials?: OllamaCredentialStore) {
         this.updateConfig();
     }
 
     updateConfig() {
+        // Endpoints are resolved per request; forget failures of ones that may have changed
+        this.unreachableUntil.clear();
+        this.contextInfo.clear();
+
         const config = vscode.workspace.getConfiguration('ollama');
-        this.baseUrl = config.get<string>('apiUrl', 'http://localhost:11434');
-        this.timeout = config.get<number>('timeout', 30000);
+        const caCertificates = config.get<string[]>('tls.caCertificates', []);
+        const rejectUnauthorized = config.get<boolean>('tls.rejectUnauthorized', true);
+
+        // Only rebuild the agent, and report unreadable files, when the TLS settings change
+        const tlsSettings = JSON.stringify({ caCertificates, rejectUnauthorized });
+        if (tlsSettings !== this.tlsSettings) {
+            this.tlsSettings = tlsSettings;
+            this.httpsAgent = this.createHttpsAgent(caCertificates, rejectUnauthorized);
+        }
+    }
+
+    /**
+     * Builds an agent that trusts the custom CA certificates in addition to
+     * the bundled ones, or none at all when verification is turned off.
+     */
+    private createHttpsAgent(caCertificates: string[], rejectUnauthorized: boolean): https.Agent | undefined {
+        if (caCertificates.length === 0 && rejectUnauthorized) {
+            return undefined;
+        }
+
+        const ca: string[] = [];
+        for (const file of caCertificates) {
+            const resolved = file.startsWith('~') ? path.join(os.homedir(), file.substring(1)) : file;
+            try {
+                ca.push(fs.readFileSync(resolved, 'utf8'));
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to read CA certificate ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        }
+
+        return new https.Agent({
+            ca: ca.length > 0 ? [...tls.rootCertificates, ...ca] : undefined,
+            rejectUnauthorized
+        });
     }
 
-    async generateCompletion(request: OllamaGenerateRequest): Promise<string> {
+    async generateCompletion(request: OllamaGenerateRequest, options: OllamaRequestOptions = {}): Promise<string> {
+        const responded = this.trackRequest(request.model);
         try {
-            const response: AxiosResponse<OllamaResponse> = await axios.post(
-                `${this.baseUrl}/api/generate`,
-                {
+            const response = await this.send<OllamaResponse>({
+                method: 'post',
+                path: '/api/generate',
+                data: {
                     ...request,
                     stream: false
                 },
-                {
-                    timeout: this.timeout,
-                    headers: {
-                        'Content-Type': 'application/json'
-                    }
-                }
-            );
+                signal: options.signal
+            }, options.role);
 
+            responded(true);
             return response.data.response;
         } catch (error) {
+            if (axios.isCancel(error)) {
+                throw new OllamaRequestCancelledError();
+            }
             console.error('Ollama completion error:', error);
             throw new Error(`Failed to generate completion: ${error}`);
+        } finally {
+            responded(false);
         }
     }
 
-    async generateChatCompletion(request: OllamaChatRequest): Promise<OllamaMessage> {
+    async generateChatCompletion(request: OllamaChatRequest, options: OllamaRequestOptions = {}): Promise<OllamaMessage> {
+        const responded = this.trackRequest(request.model);
         try {
-            const response: AxiosResponse<OllamaChatResponse> = await axios.post(
-                `${this.baseUrl}/api/chat`,
-                {
+            const response = await this.send<OllamaChatResponse>({
+                method: 'post',
+                path: '/api/chat',
+                data: {
                     ...request,
                     stream: false
                 },
-                {
-                    timeout: this.timeout,
-                    headers: {
-                        'Content-Type': 'application/json'
-                    }
-                }
-            );
+                signal: options.signal
+            }, options.role);
 
+            responded(true);
             return response.data.message;
         } catch (error) {
+            if (axios.isCancel(error)) {
+                throw new OllamaRequestCancelledError();
+            }
             console.error('Ollama chat error:', error);
             throw new Error(`Failed to generate chat completion: ${error}`);
+        } finally {
+            responded(false);
         }
     }
 
+    /**
+     * Streams a chat completion, calling `onChunk` for every content token.
+     * Resolves with the final frame, which carries the generation metrics,
+     * once the stream has ended.
+     */
     async streamChatCompletion(
         request: OllamaChatRequest,
-        onChunk: (chunk: string) => void
-    ): Promise<void> {
+        onChunk: (chunk: string) => void,
+        options: OllamaRequestOptions = {}
+    ): Promise<OllamaChatResponse> {
+        const responded = this.trackRequest(request.model);
         try {
-            const response = await axios.post(
-                `${this.baseUrl}/api/chat`,
-                {
-                    ...request,
-                    stream: true
-                },
-                {
-                    timeout: this.timeout,
-                    responseType: 'stream',
-                    headers: {
-                        'Content-Type': 'application/json'
+            return await this.streamRequest<OllamaChatResponse>(
+                '/api/chat',
+                request,
+                (frame) => {
+                    responded(true);
+                    if (frame.message && frame.message.content) {
+                        onChunk(frame.message.content);
                     }
-                }
+                },
+                options
             );
+        } catch (error) {
+            throw this.wrapStreamError('Failed to stream chat completion', error);
+        } finally {
+            responded(false);
+        }
+    }
 
-            response.data.on('data', (chunk: Buffer) => {
-                const lines = chunk.toString().split('\n').filter(line => line.trim());
-                
-                for (const line of lines) {
-                    try {
-                        const data: OllamaChatResponse = JSON.parse(line);
-                        if (data.message && data.message.content) {
-                            onChunk(data.message.content);
-                        }
-                    } catch (parseError) {
-                        // Ignore parsing errors for incomplete chunks
+    /**
+     * Streams a `/api/generate` completion, calling `onChunk` for every token.
+     */
+    async streamCompletion(
+        request: OllamaGenerateRequest,
+        onChunk: (chunk: string) => void,
+        options: OllamaRequestOptions = {}
+    ): Promise<OllamaResponse> {
+        const responded = this.trackRequest(request.model);
+        try {
+            return await this.streamRequest<OllamaResponse>(
+                '/api/generate',
+                request,
+                (frame) => {
+                    responded(true);
+                    if (frame.response) {
+                        onChunk(frame.response);
                     }
-                }
-            });
+                },
+                options
+            );
+        } catch (error) {
+            throw this.wrapStreamError('Failed to stream completion', error);
+        } finally {
+            responded(false);
+        }
+    }
 
-            response.data.on('end', () => {
-                // Stream completed
-            });
+    /**
+     * Embeds one or more inputs with `/api/embed`. The server returns one
+     * L2-normalized vector per input, in input order.
+     */
+    async embed(request: OllamaEmbedRequest, options: OllamaRequestOptions = {}): Promise<number[][]> {
+        const responded = this.trackRequest(request.model);
+        try {
+            const response = await this.send<OllamaEmbedResponse>({
+                method: 'post',
+                path: '/api/embed',
+                data: request,
+                signal: options.signal
+            }, options.role ?? 'embeddings');
 
+            responded(true);
+            return response.data.embeddings;
         } catch (error) {
-            console.error('Ollama streaming chat error:', error);
-            throw new Error(`Failed to stream chat completion: ${error}`);
+            if (axios.isCancel(error)) {
+                throw new OllamaRequestCancelledError();
+            }
+            throw this.wrapRequestError('Failed to create embeddings', error);
+        } finally {
+            responded(false);
         }
     }
 
-    async getModels(): Promise<OllamaModel[]> {
+    /**
+     * Pulls a model from the registry, reporting each progress frame.
+     */
+    async pullModel(
+        name: string,
+        onProgress: (progress: OllamaPullProgress) => void,
+        options: OllamaRequestOptions = {}
+    ): Promise<OllamaPullProgress> {
         try {
-            const response: AxiosResponse<OllamaModelsResponse> = await axios.get(
-                `${this.baseUrl}/api/tags`,
-                {
-                    timeout: this.timeout,
-                    headers: {
-                        'Content-Type': 'application/json'
-                    }
+            return await this.streamRequest<OllamaPullProgress>(
+                '/api/pull',
+                { model: name },
+                onProgress,
+                options,
+                // Downloads can take far longer than any request timeout
+                { timeout: 0, activeOnly: true }
+            );
+        } catch (error) {
+            throw this.wrapStreamError(`Failed to pull model ${name}`, error);
+        }
+    }
+
+    async deleteModel(name: string): Promise<void> {
+        try {
+            await this.sendToActive({ method: 'delete', path: '/api/delete', data: { model: name } });
+        } catch (error) {
+            throw this.wrapRequestError(`Failed to delete model ${name}`, error);
+        }
+    }
+
+    /**
+     * Copies a model under a new name, which is also how models are tagged.
+     */
+    async copyModel(source: string, destination: string): Promise<void> {
+        try {
+            await this.sendToActive({ method: 'post', path: '/api/copy', data: { source, destination } });
+        } catch (error) {
+            throw this.wrapRequestError(`Failed to copy model ${source}`, error);
+        }
+    }
+
+    /**
+     * Returns the details of a model. With `activeOnly`, only the active
+     * endpoint is asked, as for the models that can be changed there.
+     */
+    async showModel(name: string, activeOnly = false): Promise<OllamaModelInfo> {
+        try {
+            const request: OllamaHttpRequest = { method: 'post', path: '/api/show', data: { model: name } };
+            const response = activeOnly
+                ? await this.sendToActive<OllamaModelInfo>(request)
+                : await this.send<OllamaModelInfo>(request);
+
+            return response.data;
+        } catch (error) {
+            throw this.wrapRequestError(`Failed to show model ${name}`, error);
+        }
+    }
+
+    /**
+     * Returns the context window a request to `model` gets, in tokens:
+     * `num_ctx` from the request options, else from the Modelfile, else the
+     * server default, and never more than the model was trained with.
+     */
+    async getContextLength(model: string, options: OllamaModelOptions = {}): Promise<number> {
+        let info = this.contextInfo.get(model);
+        if (!info) {
+            info = this.showModel(model).then(parseContextInfo, () => {
+                // Look it up again next time, e.g. once the server is reachable
+                this.contextInfo.delete(model);
+                return {};
+            });
+            this.contextInfo.set(model, info);
+        }
+
+        const { configured, trained } = await info;
+        const length = options.num_ctx ?? configured ?? DEFAULT_CONTEXT_LENGTH;
+        return trained ? Math.min(length, trained) : length;
+    }
+
+    /**
+     * Posts a streaming request and feeds every NDJSON frame to `onFrame`.
+     * Resolves with the last frame once the stream ends, rejects with
+     * `OllamaServerError` on an error frame and with
+     * `OllamaRequestCancelledError` if `options.signal` is aborted.
+     */
+    private async streamRequest<T>(
+        path: string,
+        body: object,
+        onFrame: (frame: T) => void,
+        options: OllamaRequestOptions,
+        { timeout, activeOnly = false }: { timeout?: number; activeOnly?: boolean } = {}
+    ): Promise<T> {
+        const { signal } = options;
+
+        // Failover happens here, before any frame has been passed on
+        const request: OllamaHttpRequest = {
+            method: 'post',
+            path,
+            data: {
+                ...body,
+                stream: true
+            },
+            responseType: 'stream',
+            signal,
+            timeout
+        };
+        const response = activeOnly
+            ? await this.sendToActive<Readable>(request)
+            : await this.send<Readable>(request, options.role);
+
+        const stream = response.data;
+        const decoder = new NdjsonDecoder<T>();
+        let lastFrame: T | undefined;
+
+        return new Promise<T>((resolve, reject) => {
+            let settled = false;
+
+            const finish = (error?: Error) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                signal?.removeEventListener('abort', onAbort);
+
+                if (error) {
+                    stream.destroy();
+                    reject(error);
+                } else if (lastFrame === undefined) {
+                    reject(new OllamaServerError('Stream ended without a response'));
+                } else {
+                    resolve(lastFrame);
                 }
+            };
+
+            const emit = (frames: T[]) => {
+                for (const frame of frames) {
+                    lastFrame = frame;
+                    onFrame(frame);
+                }
+            };
+
+            const onAbort = () => finish(new OllamaRequestCancelledError());
+
+            if (signal?.aborted) {
+                onAbort();
+                return;
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            stream.on('data', (chunk: Buffer) => {
+                try {
+                    emit(decoder.write(chunk));
+                } catch (error) {
+                    finish(error instanceof Error ? error : new Error(String(error)));
+                }
+            });
+
+            stream.on('end', () => {
+                try {
+                    emit(decoder.end());
+                    finish();
+                } catch (error) {
+                    finish(error instanceof Error ? error : new Error(String(error)));
+                }
+            });
+
+            stream.on('error', (error: Error) => finish(error));
+        });
+    }
+
+    /**
+     * Announces a request for `model` and returns a callback that announces
+     * its first response, or its failure with `ok` false; only the first call
+     * has an effect.
+     */
+    private trackRequest(model: string): (ok: boolean) => void {
+        this._onDidChangeRequestActivity.fire({ model, waiting: true });
+
+        let done = false;
+        return (ok: boolean) => {
+            if (!done) {
+                done = true;
+                this._onDidChangeRequestActivity.fire({ model, waiting: false, ok });
+            }
+        };
+    }
+
+    // Non-streaming responses carry the server's reason as `{"error": ...}`
+    private wrapRequestError(message: string, error: unknown): Error {
+        console.error('Ollama request error:', error);
+        if (axios.isAxiosError(error) && error.response) {
+            const reason = (error.response.data as { error?: unknown } | undefined)?.error;
+            return new OllamaServerError(
+                `${message}: ${typeof reason === 'string' ? reason : error.message}`,
+                error.response.status
             );
+        }
+        return new Error(`${message}: ${error}`);
+    }
+
+    private wrapStreamError(message: string, error: unknown): Error {
+        if (error instanceof OllamaRequestCancelledError || axios.isCancel(error)) {
+            return new OllamaRequestCancelledError();
+        }
+        console.error('Ollama streaming error:', error);
+        if (error instanceof OllamaServerError) {
+            return new OllamaServerError(`${message}: ${error.message}`, error.status);
+        }
+        if (axios.isAxiosError(error) && error.response) {
+            return new OllamaServerError(`${message}: ${error.message}`, error.response.status);
+        }
+        return new Error(`${message}: ${error}`);
+    }
+
+    /**
+     * Lists the installed models. With `activeOnly`, the list comes from the
+     * active endpoint, which deleting, copying and pulling act on, instead
+     * of whichever endpoint answers first.
+     */
+    async getModels(activeOnly = false): Promise<OllamaModel[]> {
+        try {
+            const request: OllamaHttpRequest = { method: 'get', path: '/api/tags' };
+            const response = activeOnly
+                ? await this.sendToActive<OllamaModelsResponse>(request)
+                : await this.send<OllamaModelsResponse>(request);
 
             return response.data.models;
         } catch (error) {
@@ -202,19 +753,157 @@ export class OllamaApi {
         }
     }
 
+    async getRunningModels(activeOnly = false): Promise<OllamaRunningModel[]> {
+        try {
+            const request: OllamaHttpRequest = { method: 'get', path: '/api/ps' };
+            const response = activeOnly
+                ? await this.sendToActive<{ models: OllamaRunningModel[] }>(request)
+                : await this.send<{ models: OllamaRunningModel[] }>(request);
+
+            return response.data.models ?? [];
+        } catch (error) {
+            throw this.wrapRequestError('Failed to fetch running models', error);
+        }
+    }
+
+    /**
+     * Unloads a model from memory. An empty generate request with
+     * `keep_alive: 0` tells the server to evict it right away.
+     */
+    async unloadModel(name: string): Promise<void> {
+        try {
+            await this.sendToActive({ method: 'post', path: '/api/generate', data: { model: name, keep_alive: 0, stream: false } });
+        } catch (error) {
+            throw this.wrapRequestError(`Failed to unload model ${name}`, error);
+        }
+    }
+
+    /**
+     * True if any endpoint requests can fail over to is reachable.
+     */
     async isHealthy(): Promise<boolean> {
         try {
-            await axios.get(`${this.baseUrl}/api/tags`, {
-                timeout: 5000
-            });
+            await this.send({ method: 'get', path: '/api/tags', timeout: 5000 });
             return true;
         } catch (error) {
             return false;
         }
     }
 
+    /**
+     * Sends a request to the endpoints for `role` in failover order. Only
+     * endpoints that can't be reached are skipped; HTTP errors and
+     * cancellation end the attempt. Endpoints that just failed are tried
+     * last for a while so every request doesn't wait on a dead server.
+     */
+    private async send<T>(request: OllamaHttpRequest, role?: OllamaModelRole): Promise<AxiosResponse<T>> {
+        const now = Date.now();
+        const chain = getEndpointChain(role);
+        const isCoolingDown = (endpoint: OllamaEndpoint) => (this.unreachableUntil.get(endpoint.name) ?? 0) > now;
+        const ordered = [
+            ...chain.filter(endpoint => !isCoolingDown(endpoint)),
+            ...chain.filter(endpoint => isCoolingDown(endpoint))
+        ];
+
+        let lastError: unknown;
+        for (const endpoint of ordered) {
+            try {
+                const response = await this.sendTo<T>(endpoint, request);
+                this.unreachableUntil.delete(endpoint.name);
+                return response;
+            } catch (error) {
+                if (!this.isUnreachable(error)) {
+                    throw error;
+                }
+                console.warn(`Ollama endpoint ${endpoint.name} (${endpoint.url}) is unreachable`);
+                this.unreachableUntil.set(endpoint.name, Date.now() + UNREACHABLE_COOLDOWN);
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    // Changes to models only go to the active endpoint, never to a fallback
+    private sendToActive<T>(request: OllamaHttpRequest): Promise<AxiosResponse<T>> {
+        return this.sendTo<T>(getActiveEndpoint(), request);
+    }
+
+    private async sendTo<T>(endpoint: OllamaEndpoint, request: OllamaHttpRequest): Promise<AxiosResponse<T>> {
+        // Stored keys win over headers from settings
+        const secretHeaders = await this.credentials?.getHeaders(endpoint.name) ?? {};
+
+        return axios.request<T>({
+            method: request.method,
+            url: `${endpoint.url}${request.path}`,
+            data: request.data,
+            timeout: request.timeout ?? endpoint.timeout,
+            responseType: request.responseType,
+            signal: request.signal,
+            httpsAgent: this.httpsAgent,
+            headers: {
+                'Content-Type': 'application/json',
+                ...endpoint.headers,
+                ...secretHeaders
+            }
+        });
+    }
+
+    private isUnreachable(error: unknown): boolean {
+        if (axios.isCancel(error)) {
+            return false;
+        }
+        return axios.isAxiosError(error) &&
+            !error.response &&
+            UNREACHABLE_CODES.includes(error.code ?? '');
+    }
+
     getDefaultModel(): string {
         const config = vscode.workspace.getConfiguration('ollama');
         return config.get<string>('model', 'llama3.2');
     }
-}
\ No newline at end of file
+
+    /**
+     * Returns the user's generation settings for a role from
+     * `ollama.<role>.options`, `keepAlive` and `format`. Callers put their
+     * own defaults under `options`, so only values the user set override
+     * them.
+     */
+    getGenerationSettings(role: 'chat' | 'completions', scope?: vscode.ConfigurationScope): OllamaGenerationSettings {
+        const config = vscode.workspace.getConfiguration('ollama', scope);
+        const keepAlive = config.get<string | number>(`${role}.keepAlive`, '');
+        const format = config.get<OllamaResponseFormat | ''>(`${role}.format`, '');
+
+        return {
+            options: config.get<OllamaModelOptions>(`${role}.options`, {}),
+            // Plain numbers are seconds; strings like "10m" are durations
+            keep_alive: keepAlive === '' ? undefined : /^-?\d+$/.test(String(keepAlive)) ? Number(keepAlive) : keepAlive,
+            format: format === '' ? undefined : format
+        };
+    }
+
+    /**
+     * Returns the model configured for a role in `ollama.<role>.model`. Chat
+     * and completions fall back to `ollama.model`; embeddings need an
+     * embedding model, so that setting has its own default.
+     */
+    getModelForRole(role: OllamaModelRole, scope?: vscode.ConfigurationScope): string {
+        const config = vscode.workspace.getConfiguration('ollama', scope);
+        if (role === 'embeddings') {
+            return config.get<string>('embeddings.model') || DEFAULT_EMBEDDING_MODEL;
+        }
+        return config.get<string>(`${role}.model`) || this.getDefaultModel();
+    }
+}
+
+function parseContextInfo(info: OllamaModelInfo): OllamaContextInfo {
+    // `parameters` holds the Modelfile PARAMETER lines, e.g. "num_ctx    8192"
+    const configured = info.parameters?.match(/^num_ctx\s+(\d+)/m);
+    // Architectures report it under their own prefix, e.g. "llama.context_length"
+    const trained = Object.entries(info.model_info ?? {})
+        .find(([key, value]) => key.endsWith('.context_length') && typeof value === 'number');
+
+    return {
+        configured: configured ? Number(configured[1]) : undefined,
+        trained: trained ? trained[1] as number : undefined
+    };
+}
@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MODEL_OPTION_TYPES, OllamaModelOptions } from './ollamaApi';
+
+/**
+ * A named chat setup: a system prompt, optionally with its own model and
+ * model options.
+ */
+export interface OllamaPersona {
+    name: string;
+    description?: string;
+    systemPrompt: string;
+    model?: string;
+    options?: OllamaModelOptions;
+}
+
+// Checked into the workspace so the whole team shares them
+const PERSONA_FILES = '.ollama/personas/*.md';
+
+// Frontmatter keys that describe the persona; the others must be model options
+const PERSONA_KEYS = ['name', 'description', 'model'];
+
+const TYPE_DESCRIPTIONS = {
+    number: 'a number',
+    boolean: 'true or false',
+    'string[]': 'a list of strings'
+};
+
+/**
+ * Collects personas from `ollama.chat.personas` and from Markdown files in
+ * `.ollama/personas/`, where the body is the system prompt and frontmatter
+ * sets the name, description, model and options. Workspace files win over
+ * settings with the same name.
+ */
+export class OllamaPersonaStore implements vscode.Disposable {
+    private filePersonas: OllamaPersona[] = [];
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher(PERSONA_FILES);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(() => this.loadFiles()),
+            watcher.onDidChange(() => this.loadFiles()),
+            watcher.onDidDelete(() => this.loadFiles()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.loadFiles()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('ollama.chat.personas')) {
+                    this._onDidChange.fire();
+                }
+            })
+        );
+        this.loadFiles();
+    }
+
+    getPersonas(): OllamaPersona[] {
+        const configured = vscode.workspace.getConfiguration('ollama')
+            .get<OllamaPersona[]>('chat.personas', [])
+            .filter(persona => persona && persona.name && typeof persona.systemPrompt === 'string');
+        const fromFiles = new Set(this.filePersonas.map(persona => persona.name));
+
+        return [
+            ...configured.filter(persona => !fromFiles.has(persona.name)),
+            ...this.filePersonas
+        ];
+    }
+
+    getPersona(name: string | undefined): OllamaPersona | undefined {
+        return name ? this.getPersonas().find(persona => persona.name === name) : undefined;
+    }
+
+    private async loadFiles(): Promise<void> {
+        const personas: OllamaPersona[] = [];
+        const uris = await vscode.workspace.findFiles(PERSONA_FILES);
+
+        for (const uri of uris.sort((a, b) => a.path.localeCompare(b.path))) {
+            try {
+                const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+                const problems: string[] = [];
+                personas.push(parsePersonaFile(content, path.basename(uri.path, '.md'), problems));
+                if (problems.length > 0) {
+                    vscode.window.showWarningMessage(
+                        `Ignored settings in persona ${vscode.workspace.asRelativePath(uri)}: ${problems.join('; ')}`
+                    );
+                }
+            } catch (error) {
+                console.error(`Ignoring unreadable persona ${uri.fsPath}:`, error);
+            }
+        }
+
+        this.filePersonas = personas;
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+/**
+ * Parses a persona file. Frontmatter is a block of `key: value` lines
+ * between `---` markers; values are read as JSON when they parse, so
+ * `temperature: 0.2` is a number and `stop: ["###"]` a list. Unknown keys
+ * and values of the wrong type are left out and described in `problems`.
+ */
+function parsePersonaFile(content: string, fallbackName: string, problems: string[]): OllamaPersona {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+    const body = (match ? match[2] : content).trim();
+    const persona: OllamaPersona = { name: fallbackName, systemPrompt: body };
+    if (!match) {
+        return persona;
+    }
+
+    const options: Record<string, unknown> = {};
+    for (const line of match[1].split(/\r?\n/)) {
+        const separator = line.indexOf(':');
+        if (separator === -1 || line.trim().startsWith('#')) {
+            continue;
+        }
+        const key = line.substring(0, separator).trim();
+        const value = parseValue(line.substring(separator + 1).trim());
+
+        if (PERSONA_KEYS.includes(key)) {
+            persona[key as 'name' | 'description' | 'model'] = String(value);
+            continue;
+        }
+        if (!key) {
+            continue;
+        }
+
+        const type = Object.prototype.hasOwnProperty.call(MODEL_OPTION_TYPES, key)
+            ? MODEL_OPTION_TYPES[key as keyof OllamaModelOptions]
+            : undefined;
+        if (!type) {
+            problems.push(`unknown option "${key}"`);
+        } else if (!hasType(value, type)) {
+            problems.push(`"${key}" must be ${TYPE_DESCRIPTIONS[type]}`);
+        } else {
+            options[key] = value;
+        }
+    }
+
+    if (Object.keys(options).length > 0) {
+        persona.options = options as OllamaModelOptions;
+    }
+    return persona;
+}
+
+function hasType(value: unknown, type: 'number' | 'boolean' | 'string[]'): boolean {
+    if (type === 'string[]') {
+        return Array.isArray(value) && value.every(item => typeof item === 'string');
+    }
+    return typeof value === type && (type !== 'number' || Number.isFinite(value));
+}
+
+function parseValue(value: string): unknown {
+    try {
+        return JSON.parse(value);
+    } catch (error) {
+        // Plain strings may be written with or without quotes
+        return value.replace(/^'(.*)'$/, '$1');
+    }
+}
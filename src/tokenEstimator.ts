@@ -0,0 +1,22 @@
+import type { OllamaMessage } from './ollamaApi';
+
+// Role markers and separators the chat template adds around each message
+const MESSAGE_OVERHEAD = 4;
+
+/**
+ * Estimates how many tokens `text` takes without the model's tokenizer.
+ * Runs of letters and digits count one token per four characters, since
+ * BPE vocabularies split long identifiers; every other character, such as
+ * the punctuation code is full of, counts as a token of its own.
+ */
+export function estimateTokens(text: string): number {
+    let tokens = 0;
+    for (const piece of text.match(/[A-Za-z0-9_]+|\S/g) ?? []) {
+        tokens += piece.length > 1 ? Math.ceil(piece.length / 4) : 1;
+    }
+    return tokens;
+}
+
+export function estimateMessageTokens(message: OllamaMessage): number {
+    return estimateTokens(message.content) + MESSAGE_OVERHEAD;
+}
@@ -0,0 +1,520 @@
+import * as vscode from 'vscode';
+import { OllamaApi, OllamaRequestCancelledError } from './ollamaApi';
+
+/**
+ * A chunk of a workspace file returned by a search, with the lines it spans
+ * (zero-based, inclusive) and its similarity to the query.
+ */
+export interface OllamaWorkspaceMatch {
+    uri: vscode.Uri;
+    startLine: number;
+    endLine: number;
+    text: string;
+    score: number;
+}
+
+interface IndexedChunk {
+    startLine: number;
+    endLine: number;
+    vector: Float32Array;
+}
+
+interface IndexedFile {
+    mtime: number;
+    chunks: IndexedChunk[];
+}
+
+// On-disk format; vectors are base64-encoded Float32Arrays to keep the file small
+interface StoredIndex {
+    version: number;
+    model: string;
+    files: Record<string, { mtime: number; chunks: { startLine: number; endLine: number; vector: string }[] }>;
+}
+
+const INDEX_VERSION = 1;
+const INDEX_FILE = 'workspace-index.json';
+
+// Chunks overlap so code near a boundary is still found with its surroundings
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP = 10;
+
+// Chunks sent per /api/embed request
+const EMBED_BATCH_SIZE = 16;
+const MAX_FILE_SIZE = 256 * 1024;
+
+// Delay before changed files are re-embedded and the index is written back
+const UPDATE_DELAY = 2000;
+
+const INDEX_SETTINGS = [
+    'ollama.workspaceIndex.include',
+    'ollama.workspaceIndex.exclude',
+    'ollama.workspaceIndex.maxFiles',
+    'ollama.embeddings.model'
+];
+
+/**
+ * Local retrieval index for `@workspace` questions. Workspace files are split
+ * into overlapping line chunks, embedded with the embeddings model, and kept
+ * in extension storage. The index is built the first time it is searched;
+ * after that, file watchers re-embed changed files in the background and
+ * only files whose modification time changed are embedded again on the next
+ * start.
+ */
+export class OllamaWorkspaceIndex implements vscode.Disposable {
+    private files = new Map<string, IndexedFile>();
+    private model = '';
+    private ready?: Promise<void>;
+    private queue = new Set<string>();
+    private updateTimer?: NodeJS.Timeout;
+    private processing: Promise<void> = Promise.resolve();
+    private watcher?: vscode.FileSystemWatcher;
+    private disposables: vscode.Disposable[] = [];
+    private disposed = false;
+
+    constructor(
+        private readonly ollamaApi: OllamaApi,
+        private readonly storageUri: vscode.Uri | undefined
+    ) {
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (this.ready && INDEX_SETTINGS.some(setting => event.affectsConfiguration(setting))) {
+                    this.reset();
+                }
+            })
+        );
+    }
+
+    register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            this,
+            vscode.commands.registerCommand('ollama.rebuildWorkspaceIndex', () => this.rebuild())
+        );
+    }
+
+    /**
+     * Returns the `topK` chunks most similar to `query`, building or catching
+     * up the index first if needed. Aborting `signal` stops the wait, but the
+     * index keeps building in the background.
+     */
+    async search(query: string, topK: number, signal?: AbortSignal): Promise<OllamaWorkspaceMatch[]> {
+        await untilAborted(this.ensureReady(), signal);
+        // Files that failed to update in the background keep their old chunks
+        await untilAborted(this.processing.catch(() => undefined), signal);
+
+        const [queryVector] = await this.ollamaApi.embed(
+            { model: this.model, input: query, truncate: true },
+            { signal, role: 'embeddings' }
+        );
+        const target = Float32Array.from(queryVector);
+
+        const scored: { key: string; chunk: IndexedChunk; score: number }[] = [];
+        for (const [key, file] of this.files) {
+            for (const chunk of file.chunks) {
+                scored.push({ key, chunk, score: cosineSimilarity(target, chunk.vector) });
+            }
+        }
+        scored.sort((a, b) => b.score - a.score);
+
+        const matches: OllamaWorkspaceMatch[] = [];
+        for (const { key, chunk, score } of scored.slice(0, topK)) {
+            const uri = vscode.Uri.parse(key);
+            const lines = await this.readLines(uri);
+            if (!lines) {
+                continue;
+            }
+            matches.push({
+                uri,
+                startLine: chunk.startLine,
+                endLine: Math.min(chunk.endLine, lines.length - 1),
+                text: lines.slice(chunk.startLine, chunk.endLine + 1).join('\n'),
+                score
+            });
+        }
+        return matches;
+    }
+
+    private async rebuild(): Promise<void> {
+        this.reset();
+        this.files.clear();
+        // Start from scratch instead of loading the stored index again
+        this.model = this.ollamaApi.getModelForRole('embeddings');
+        try {
+            await this.ensureReady();
+            await this.processing;
+            vscode.window.showInformationMessage(`Indexed ${this.files.size} workspace files for @workspace`);
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to index workspace: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    private ensureReady(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.initialize().catch(error => {
+                // Let the next search try again, e.g. once the model is pulled
+                this.ready = undefined;
+                throw error;
+            });
+        }
+        return this.ready;
+    }
+
+    /**
+     * Loads the stored index, queues every file that is new or changed since
+     * it was written, and starts watching for changes.
+     */
+    private async initialize(): Promise<void> {
+        const model = this.ollamaApi.getModelForRole('embeddings');
+        if (this.model !== model) {
+            this.files.clear();
+            this.model = model;
+            await this.load();
+        }
+
+        const config = vscode.workspace.getConfiguration('ollama');
+        const include = config.get<string>('workspaceIndex.include', '**/*');
+        const exclude = config.get<string>('workspaceIndex.exclude', '');
+        const maxFiles = config.get<number>('workspaceIndex.maxFiles', 2000);
+
+        const uris = await vscode.workspace.findFiles(include, exclude || undefined, maxFiles);
+        const found = new Set(uris.map(uri => uri.toString()));
+        for (const key of Array.from(this.files.keys())) {
+            if (!found.has(key)) {
+                this.files.delete(key);
+            }
+        }
+
+        for (const uri of uris) {
+            const indexed = this.files.get(uri.toString());
+            if (!indexed || indexed.mtime !== await this.getMtime(uri)) {
+                this.queue.add(uri.toString());
+            }
+        }
+
+        this.watch(include);
+        await this.processQueue(true);
+    }
+
+    private watch(include: string): void {
+        this.watcher?.dispose();
+        this.watcher = vscode.workspace.createFileSystemWatcher(include);
+        this.watcher.onDidCreate(uri => this.scheduleUpdate(uri));
+        this.watcher.onDidChange(uri => this.scheduleUpdate(uri));
+        this.watcher.onDidDelete(uri => {
+            if (this.files.delete(uri.toString())) {
+                this.scheduleProcessing();
+            }
+        });
+    }
+
+    private scheduleUpdate(uri: vscode.Uri): void {
+        if (!this.isIncluded(uri)) {
+            return;
+        }
+        this.queue.add(uri.toString());
+        this.scheduleProcessing();
+    }
+
+    private scheduleProcessing(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            this.processQueue(false).catch(error => console.error('Workspace index update failed:', error));
+        }, UPDATE_DELAY);
+    }
+
+    /**
+     * Watchers only take one glob, so the include and exclude patterns are
+     * matched against the file's path here. Files that are not indexed yet
+     * are only added while the index is under the file limit.
+     */
+    private isIncluded(uri: vscode.Uri): boolean {
+        if (!vscode.workspace.getWorkspaceFolder(uri)) {
+            return false;
+        }
+
+        const config = vscode.workspace.getConfiguration('ollama');
+        const include = config.get<string>('workspaceIndex.include', '**/*');
+        const exclude = config.get<string>('workspaceIndex.exclude', '');
+        const maxFiles = config.get<number>('workspaceIndex.maxFiles', 2000);
+
+        const relativePath = vscode.workspace.asRelativePath(uri, false);
+        if (!globToRegExp(include).test(relativePath) || (exclude && globToRegExp(exclude).test(relativePath))) {
+            return false;
+        }
+        return this.files.has(uri.toString()) || this.files.size + this.queue.size < maxFiles;
+    }
+
+    /**
+     * Embeds every queued file, one file at a time so a failure only loses
+     * that file. Runs are chained so they never overlap.
+     */
+    private processQueue(showProgress: boolean): Promise<void> {
+        this.processing = this.processing.catch(() => undefined).then(async () => {
+            if (this.queue.size === 0) {
+                await this.save();
+                return;
+            }
+
+            const run = async (progress?: vscode.Progress<{ message?: string }>) => {
+                const total = this.queue.size;
+                let done = 0;
+                while (this.queue.size > 0 && !this.disposed) {
+                    const key = this.queue.values().next().value as string;
+                    this.queue.delete(key);
+                    progress?.report({ message: `${++done}/${total}` });
+                    const uri = vscode.Uri.parse(key);
+                    try {
+                        await this.indexFile(uri);
+                    } catch (error) {
+                        console.error(`Failed to index ${uri.fsPath}:`, error);
+                    }
+                }
+            };
+
+            try {
+                if (showProgress) {
+                    await vscode.window.withProgress({
+                        location: vscode.ProgressLocation.Window,
+                        title: 'Indexing workspace for @workspace'
+                    }, run);
+                } else {
+                    await run();
+                }
+            } finally {
+                await this.save();
+            }
+        });
+        return this.processing;
+    }
+
+    private async indexFile(uri: vscode.Uri): Promise<void> {
+        const key = uri.toString();
+        const mtime = await this.getMtime(uri);
+        const lines = mtime === undefined ? undefined : await this.readLines(uri);
+        if (!lines) {
+            this.files.delete(key);
+            return;
+        }
+
+        const relativePath = vscode.workspace.asRelativePath(uri);
+        const chunks = this.chunk(lines);
+        const vectors: number[][] = [];
+
+        for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+            const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+            // The path helps match questions that name a file or module
+            const input = batch.map(chunk => `${relativePath}\n${lines.slice(chunk.startLine, chunk.endLine + 1).join('\n')}`);
+            try {
+                vectors.push(...await this.ollamaApi.embed(
+                    { model: this.model, input, truncate: true },
+                    { role: 'embeddings' }
+                ));
+            } catch (error) {
+                if (error instanceof OllamaRequestCancelledError) {
+                    return;
+                }
+                throw error;
+            }
+        }
+
+        this.files.set(key, {
+            mtime: mtime!,
+            chunks: chunks.map((chunk, index) => ({ ...chunk, vector: Float32Array.from(vectors[index]) }))
+        });
+    }
+
+    private chunk(lines: string[]): { startLine: number; endLine: number }[] {
+        const chunks: { startLine: number; endLine: number }[] = [];
+        for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+            const end = Math.min(start + CHUNK_LINES, lines.length) - 1;
+            if (lines.slice(start, end + 1).some(line => line.trim())) {
+                chunks.push({ startLine: start, endLine: end });
+            }
+            if (end === lines.length - 1) {
+                break;
+            }
+        }
+        return chunks;
+    }
+
+    private async readLines(uri: vscode.Uri): Promise<string[] | undefined> {
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            // Skip large and binary files
+            if (content.byteLength > MAX_FILE_SIZE || content.subarray(0, 8000).includes(0)) {
+                return undefined;
+            }
+            return new TextDecoder().decode(content).split(/\r?\n/);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private async getMtime(uri: vscode.Uri): Promise<number | undefined> {
+        try {
+            return (await vscode.workspace.fs.stat(uri)).mtime;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private reset(): void {
+        this.ready = undefined;
+        this.queue.clear();
+        this.watcher?.dispose();
+        this.watcher = undefined;
+    }
+
+    private async load(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, INDEX_FILE));
+            const stored = JSON.parse(new TextDecoder().decode(content)) as StoredIndex;
+            // Vectors from another model live in a different space and can't be compared
+            if (stored.version !== INDEX_VERSION || stored.model !== this.model) {
+                return;
+            }
+            for (const [key, file] of Object.entries(stored.files)) {
+                this.files.set(key, {
+                    mtime: file.mtime,
+                    chunks: file.chunks.map(chunk => ({
+                        startLine: chunk.startLine,
+                        endLine: chunk.endLine,
+                        vector: decodeVector(chunk.vector)
+                    }))
+                });
+            }
+        } catch (error) {
+            // No index yet, or an unreadable one that gets rebuilt
+        }
+    }
+
+    private async save(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+
+        const stored: StoredIndex = { version: INDEX_VERSION, model: this.model, files: {} };
+        for (const [key, file] of this.files) {
+            stored.files[key] = {
+                mtime: file.mtime,
+                chunks: file.chunks.map(chunk => ({
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine,
+                    vector: encodeVector(chunk.vector)
+                }))
+            };
+        }
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                vscode.Uri.joinPath(this.storageUri, INDEX_FILE),
+                new TextEncoder().encode(JSON.stringify(stored))
+            );
+        } catch (error) {
+            console.error('Failed to save workspace index:', error);
+        }
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.watcher?.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+/**
+ * Waits for `promise`, but rejects with `OllamaRequestCancelledError` as
+ * soon as `signal` is aborted.
+ */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        return Promise.reject(new OllamaRequestCancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new OllamaRequestCancelledError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Converts a workspace glob (`**`, `*`, `?`, `{a,b}` and `[...]`) into a
+ * regular expression matching whole workspace-relative paths.
+ */
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let inGroup = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                i++;
+                if (glob[i + 1] === '/') {
+                    i++;
+                    source += '(?:.*/)?';
+                } else {
+                    source += '.*';
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            inGroup = true;
+            source += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            source += ')';
+        } else if (char === ',' && inGroup) {
+            source += '|';
+        } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+            const end = glob.indexOf(']', i + 2);
+            const range = glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+            source += `[${range}]`;
+            i = end;
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length && i < b.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function encodeVector(vector: Float32Array): string {
+    return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+    const bytes = Buffer.from(encoded, 'base64');
+    // Copy into an aligned buffer; Buffer slices may start at any offset
+    return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}